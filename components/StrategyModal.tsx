@@ -4,8 +4,10 @@
  */
 
 import { useEffect, useState } from "react";
+import { acceptsContributions } from "@x-strategy/sdk";
 import { Strategy, StrategyStatus } from "../lib/types/strategy";
 import { useNotifications, getErrorMessage } from "../lib/hooks/useNotifications";
+import { useStrategyStatus } from "../lib/hooks/useStrategyStatus";
 
 interface StrategyModalProps {
   strategy: Strategy | null;
@@ -27,6 +29,9 @@ export default function StrategyModal({
   const [isProcessing, setIsProcessing] = useState(false);
   const [contributionAmount, setContributionAmount] = useState<string>("0.1");
   const { addNotification } = useNotifications();
+  const { data: onChain } = useStrategyStatus(
+    strategy?.contractAddress as `0x${string}` | undefined
+  );
 
   // Close on ESC key
   useEffect(() => {
@@ -41,6 +46,9 @@ export default function StrategyModal({
 
   if (!isOpen || !strategy) return null;
 
+  // Once deployed, the chain is the source of truth for status and progress
+  const current: Strategy = onChain ? { ...strategy, ...onChain } : strategy;
+
   const handleOptInClick = async () => {
     if (!onOptIn) return;
     try {
@@ -169,7 +177,7 @@ export default function StrategyModal({
                   </h1>
                   <div className="flex items-center gap-2">
                     <span className="bg-black text-white text-[10px] font-mono px-2 py-1 uppercase tracking-widest border border-white/20">
-                      {strategy.status.replace("_", " ")}
+                      {current.status.replace("_", " ")}
                     </span>
                     {strategy.trending && (
                       <span className="bg-white text-black text-[10px] font-mono px-2 py-1 uppercase tracking-widest border border-black/20">
@@ -281,7 +289,7 @@ export default function StrategyModal({
                   </p>
                   <div className="flex items-baseline gap-2">
                     <span className="text-4xl font-black text-gray-900 dark:text-white">
-                      {strategy.fundingPercentage || 0}%
+                      {current.fundingPercentage || 0}%
                     </span>
                     <span className="text-xs font-bold text-zinc-400 uppercase">
                       of Target
@@ -290,7 +298,7 @@ export default function StrategyModal({
                   <div className="w-full h-1 bg-zinc-100 dark:bg-zinc-900 mt-4 overflow-hidden">
                     <div
                       className="h-full bg-blue-600 transition-all duration-1000"
-                      style={{ width: `${strategy.fundingPercentage || 0}%` }}
+                      style={{ width: `${current.fundingPercentage || 0}%` }}
                     />
                   </div>
                 </div>
@@ -307,7 +315,7 @@ export default function StrategyModal({
 
               {/* Action Area (Brutalist style) */}
               <div className="space-y-6">
-                {strategy.status === StrategyStatus.PENDING_CREATOR ? (
+                {current.status === StrategyStatus.PENDING_CREATOR ? (
                   <div className="p-6 bg-yellow-600/5 border border-yellow-600/20">
                     {isDesignatedCreator ? (
                       <>
@@ -341,7 +349,7 @@ export default function StrategyModal({
                       </div>
                     )}
                   </div>
-                ) : strategy.status === StrategyStatus.ACTIVE ? (
+                ) : acceptsContributions(current) ? (
                   <div className="p-6 bg-blue-600/5 border border-blue-600/20">
                     <div className="flex justify-between items-center mb-4">
                       <span className="text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-[0.2em]">
@@ -369,7 +377,7 @@ export default function StrategyModal({
                 ) : (
                   <div className="p-6 bg-zinc-100 dark:bg-zinc-900 border border-zinc-200 dark:border-white/10 text-center">
                     <p className="text-[10px] font-black text-zinc-400 uppercase tracking-[0.2em]">
-                      Strategy {strategy.status.replace("_", " ")}
+                      Strategy {current.status.replace("_", " ")}
                     </p>
                   </div>
                 )}
@@ -0,0 +1,40 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import "forge-std/Script.sol";
+import {XStrategyFactory} from "../src/XStrategyFactory.sol";
+import {MockAMM} from "../src/mocks/MockAMM.sol";
+import {ERC20Mock} from "@openzeppelin/contracts/mocks/token/ERC20Mock.sol";
+
+/**
+ * @notice Local anvil fixture: factory, a mock token and a seeded MockAMM pool
+ * @dev Pair with the operator's `mock` swap provider (MOCK_AMM_ADDRESS)
+ */
+contract DeployLocal is Script {
+    uint256 constant POOL_ETH = 100 ether;
+    uint256 constant POOL_TOKENS = 1_000_000 ether;
+
+    function run() external {
+        uint256 deployerPrivateKey = vm.envUint("PRIVATE_KEY");
+        address defaultOperator = vm.envAddress("PROTOCOL_OPERATOR");
+        address deployer = vm.addr(deployerPrivateKey);
+
+        vm.startBroadcast(deployerPrivateKey);
+
+        // SplitMain is not deployed on anvil; only contribute -> swap -> confirm is exercised
+        XStrategyFactory factory = new XStrategyFactory(deployer, deployer, defaultOperator);
+
+        ERC20Mock token = new ERC20Mock();
+        token.mint(deployer, POOL_TOKENS);
+
+        MockAMM amm = new MockAMM();
+        token.approve(address(amm), POOL_TOKENS);
+        amm.addLiquidity{value: POOL_ETH}(address(token), POOL_TOKENS);
+
+        console.log("XStrategyFactory deployed to:", address(factory));
+        console.log("Mock token deployed to:", address(token));
+        console.log("MockAMM deployed to:", address(amm));
+
+        vm.stopBroadcast();
+    }
+}
@@ -843,6 +843,10 @@ contract XStrategy is ReentrancyGuard, Pausable {
         percentage = target > 0 ? (current * 100) / target : 0;
     }
 
+    function getPendingContributors() external view returns (address[] memory) {
+        return _pendingContributors.values();
+    }
+
     function getContributorInfo(address contributor) external view returns (
         uint256 ethContributed,
         uint256 tokensOwed,
@@ -912,22 +916,25 @@ contract XStrategy is ReentrancyGuard, Pausable {
     // ============== BATCH REFUND FUNCTION ==============
 
     /**
-     * @notice Refund pending contributions in batches (callable by anyone)
-     * @dev Public function to enable permissionless refund processing after strategy fails
+     * @notice Refund pending contributions in batches (factory only)
+     * @dev After the strategy ends every pending contribution is refunded; while it is
+     *      live only those older than PENDING_CONTRIBUTION_TIMEOUT are, so the operator
+     *      can sweep contributions it could not fill without waiting for contributors
      * @param startIndex Starting index in pending contributors set
      * @param batchSize Maximum number of refunds to process
      */
     function refundPendingBatch(uint256 startIndex, uint256 batchSize) external onlyFactory {
-        require(status != Status.ACTIVE && status != Status.PENDING_CREATOR, "Strategy still active");
-        _processBatchRefunds(startIndex, batchSize);
+        bool strategyLive = status == Status.ACTIVE || status == Status.PENDING_CREATOR;
+        _processBatchRefunds(startIndex, batchSize, strategyLive);
     }
 
     /**
      * @notice Internal function to process batch refunds
      * @param startIndex Starting index in pending contributors set
      * @param batchSize Maximum number of refunds to process
+     * @param onlyTimedOut Skip contributions still within PENDING_CONTRIBUTION_TIMEOUT
      */
-    function _processBatchRefunds(uint256 startIndex, uint256 batchSize) internal {
+    function _processBatchRefunds(uint256 startIndex, uint256 batchSize, bool onlyTimedOut) internal {
         uint256 setLength = _pendingContributors.length();
         if (startIndex >= setLength) {
             return; // Nothing to process
@@ -946,8 +953,10 @@ contract XStrategy is ReentrancyGuard, Pausable {
         while (processed < batchSize && startIndex < _pendingContributors.length()) {
             address contributor = _pendingContributors.at(startIndex);
             uint256 pending = pendingContributions[contributor];
-            if (pending > 0) {
+            bool timedOut = block.timestamp >= pendingTimestamp[contributor] + PENDING_CONTRIBUTION_TIMEOUT;
+            if (pending > 0 && (timedOut || !onlyTimedOut)) {
                 pendingContributions[contributor] = 0;
+                pendingTimestamp[contributor] = 0;
 
                 // Remove from pending set
                 _pendingContributors.remove(contributor);
@@ -959,7 +968,7 @@ contract XStrategy is ReentrancyGuard, Pausable {
                 processed++;
                 // Don't increment startIndex since we removed an element and the next element is now at the same index
             } else {
-                // If no pending contribution, move to next
+                // If no pending contribution (or not yet timed out), move to next
                 startIndex++;
             }
         }
@@ -971,7 +980,7 @@ contract XStrategy is ReentrancyGuard, Pausable {
     function _refundAllPendingBatched() internal {
         // Process first batch to kick off refunds
         if (_pendingContributors.length() > 0) {
-            _processBatchRefunds(0, 10);
+            _processBatchRefunds(0, 10, false);
         }
     }
 
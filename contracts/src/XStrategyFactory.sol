@@ -347,6 +347,16 @@ contract XStrategyFactory is Ownable, Pausable {
         emit StrategyUnpaused(strategy);
     }
 
+    /**
+     * @notice Refund pending contributions on a strategy in batches
+     * @dev While the strategy is live only timed-out contributions are refunded
+     */
+    function refundPendingBatch(address strategy, uint256 startIndex, uint256 batchSize) external {
+        if (!isOperator[msg.sender] && msg.sender != owner()) revert InvalidOperator();
+        if (!isStrategy[strategy]) revert NotAStrategy();
+        XStrategy(payable(strategy)).refundPendingBatch(startIndex, batchSize);
+    }
+
     function updateStrategyOperator(address strategy, address newOperator) external onlyOwner {
         if (!isStrategy[strategy]) revert NotAStrategy();
         if (newOperator == address(0)) revert InvalidOperator();
@@ -0,0 +1,70 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/**
+ * @title MockAMM
+ * @notice Deterministic constant-product ETH/token pools for local testing
+ * @dev Backs the operator's mock swap provider on anvil. Not for production use.
+ */
+contract MockAMM {
+    using SafeERC20 for IERC20;
+
+    struct Pool {
+        uint256 reserveETH;
+        uint256 reserveToken;
+    }
+
+    uint32 public constant FEE_BPS = 30; // 0.3%
+
+    mapping(address => Pool) public pools;
+
+    event LiquidityAdded(address indexed token, uint256 ethAmount, uint256 tokenAmount);
+    event Swap(address indexed token, address indexed to, uint256 ethIn, uint256 tokensOut);
+
+    error NoLiquidity();
+    error InsufficientOutput();
+
+    /**
+     * @notice Seed or top up a token's pool
+     * @param token Token to pair with ETH
+     * @param tokenAmount Tokens pulled from the caller (requires approval)
+     */
+    function addLiquidity(address token, uint256 tokenAmount) external payable {
+        IERC20(token).safeTransferFrom(msg.sender, address(this), tokenAmount);
+        pools[token].reserveETH += msg.value;
+        pools[token].reserveToken += tokenAmount;
+
+        emit LiquidityAdded(token, msg.value, tokenAmount);
+    }
+
+    /**
+     * @notice Tokens out for a given ETH input, after fee
+     */
+    function getAmountOut(address token, uint256 ethIn) public view returns (uint256) {
+        Pool memory pool = pools[token];
+        if (pool.reserveETH == 0 || pool.reserveToken == 0) revert NoLiquidity();
+
+        uint256 ethInAfterFee = ethIn * (10000 - FEE_BPS);
+        return (ethInAfterFee * pool.reserveToken) / (pool.reserveETH * 10000 + ethInAfterFee);
+    }
+
+    /**
+     * @notice Swap attached ETH for tokens
+     * @param token Token to buy
+     * @param minOut Minimum tokens out (slippage protection)
+     * @param to Recipient of the tokens
+     */
+    function swapExactETHForTokens(address token, uint256 minOut, address to) external payable returns (uint256 tokensOut) {
+        tokensOut = getAmountOut(token, msg.value);
+        if (tokensOut < minOut) revert InsufficientOutput();
+
+        pools[token].reserveETH += msg.value;
+        pools[token].reserveToken -= tokensOut;
+        IERC20(token).safeTransfer(to, tokensOut);
+
+        emit Swap(token, to, msg.value, tokensOut);
+    }
+}
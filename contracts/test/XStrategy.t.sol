@@ -181,4 +181,48 @@ contract XStrategyTest is Test {
         vm.expectRevert(XStrategy.DeadlinePassed.selector);
         strategy.contribute{value: 1 ether}();
     }
+
+    function testOperatorRefundsTimedOutPendingBatch() public {
+        // Setup
+        vm.prank(strategyCreator);
+        uint32[] memory unlocks = new uint32[](1);
+        unlocks[0] = 10000;
+        address strategyAddr = factory.createStrategy(
+            address(token),
+            designatedCreator,
+            TARGET_AMOUNT,
+            block.timestamp + DEADLINE_OFFSET,
+            unlocks,
+            address(0),
+            address(0)
+        );
+        XStrategy strategy = XStrategy(payable(strategyAddr));
+
+        vm.prank(designatedCreator);
+        strategy.optIn{value: CREATOR_STAKE}();
+
+        vm.prank(contributor1);
+        strategy.contribute{value: 1 ether}();
+
+        // Within the timeout nothing is refunded
+        vm.prank(operator);
+        factory.refundPendingBatch(strategyAddr, 0, 10);
+        assertEq(strategy.pendingContributions(contributor1), 1 ether);
+
+        // After the timeout the operator sweeps it back to the contributor
+        vm.warp(block.timestamp + strategy.PENDING_CONTRIBUTION_TIMEOUT());
+        uint256 preBalance = contributor1.balance;
+
+        vm.prank(operator);
+        factory.refundPendingBatch(strategyAddr, 0, 10);
+
+        assertEq(strategy.pendingContributions(contributor1), 0);
+        assertEq(contributor1.balance, preBalance + 1 ether, "Refund Failed");
+        assertEq(strategy.getPendingContributors().length, 0);
+
+        // Only operators may trigger sweeps
+        vm.prank(contributor1);
+        vm.expectRevert(XStrategyFactory.InvalidOperator.selector);
+        factory.refundPendingBatch(strategyAddr, 0, 10);
+    }
 }
@@ -4,7 +4,174 @@
 import {
     XStrategyFactory,
     XStrategy,
+    Strategy,
+    handlerContext,
 } from "generated";
+import {
+    ContractStatus,
+    ContractStatusName,
+    CreatorStatus,
+    CreatorStatusName,
+    contractStatusName,
+    creatorStatusName,
+    deriveStrategyStatus,
+    getMilestones,
+    type MilestoneInfo,
+} from "@x-strategy/sdk";
+import { clientFor } from "./client";
+
+type StrategyStatusFields = {
+    status: string;
+    contractStatus: string;
+    creatorStatus: string;
+    deadline: bigint;
+    currentAmountETH: bigint;
+    targetAmount: bigint;
+};
+
+// Re-derive the product status whenever an event changes its inputs, as of that event's block
+function withDerivedStatus<T extends StrategyStatusFields>(strategy: T, timestamp: number): T {
+    const { status } = deriveStrategyStatus({
+        status: ContractStatus[strategy.contractStatus as ContractStatusName],
+        creatorStatus: CreatorStatus[strategy.creatorStatus as CreatorStatusName],
+        deadline: strategy.deadline,
+        totalContributed: strategy.currentAmountETH,
+        targetAmount: strategy.targetAmount,
+    }, timestamp);
+    return { ...strategy, status };
+}
+
+// Mirrors XStrategyFactory.getCreatorScore at the moment of the update, when the recency bonus always applies
+function creatorScore(created: bigint, succeeded: bigint, completed: bigint, contributions: bigint): bigint {
+    if (created === 0n || completed === 0n) return 50n;
+    const baseScore = (succeeded * 70n) / completed;
+    const volumeBonus = contributions >= 100n * 10n ** 18n ? 20n : (contributions * 20n) / (100n * 10n ** 18n);
+    const score = baseScore + volumeBonus + 10n;
+    return score > 100n ? 100n : score;
+}
+
+function subtractFloor(a: bigint, b: bigint): bigint {
+    return a > b ? a - b : 0n;
+}
+
+const PROTOCOL_ID = "protocol";
+const PRICE_SCALE = 10n ** 18n;
+const HOUR = 3600;
+const DAY = 86400;
+
+/**
+ * Write a strategy state change, folding it into the protocol totals and the
+ * hourly and daily snapshots of both. Every Strategy write goes through here,
+ * so the derived status and snapshots never lag the entity.
+ */
+async function recordStrategy(
+    context: handlerContext,
+    previous: Strategy | undefined,
+    changed: Strategy,
+    timestamp: number,
+    activity: { ethContributed?: bigint; newContributor?: boolean } = {}
+) {
+    const strategy = withDerivedStatus(changed, timestamp);
+    context.Strategy.set(strategy);
+
+    const active = (s?: Strategy) => (s?.contractStatus === contractStatusName(ContractStatus.ACTIVE) ? 1n : 0n);
+    const locked = (s?: Strategy) => (s && s.completedAt === undefined ? s.currentAmountETH : 0n);
+    const justCompleted = previous?.completedAt === undefined && strategy.completedAt !== undefined;
+
+    const protocol = await context.Protocol.get(PROTOCOL_ID);
+    const completedStrategies = (protocol?.completedStrategies || 0n) + (justCompleted ? 1n : 0n);
+    const successfulStrategies = (protocol?.successfulStrategies || 0n) + (justCompleted && strategy.success ? 1n : 0n);
+    const totalCompletionSeconds = (protocol?.totalCompletionSeconds || 0n)
+        + (justCompleted ? strategy.completedAt! - strategy.createdAt : 0n);
+    const totals = {
+        totalStrategies: (protocol?.totalStrategies || 0n) + (previous ? 0n : 1n),
+        activeStrategies: (protocol?.activeStrategies || 0n) + active(strategy) - active(previous),
+        totalValueLocked: (protocol?.totalValueLocked || 0n) + locked(strategy) - locked(previous),
+        totalContributors: (protocol?.totalContributors || 0n) + (activity.newContributor ? 1n : 0n),
+        successRate: completedStrategies > 0n ? (Number(successfulStrategies) * 100) / Number(completedStrategies) : 0,
+        averageCompletion: completedStrategies > 0n ? Number(totalCompletionSeconds) / Number(completedStrategies) / DAY : 0
+    };
+    context.Protocol.set({ id: PROTOCOL_ID, ...totals, completedStrategies, successfulStrategies, totalCompletionSeconds });
+
+    const hourStart = BigInt(Math.floor(timestamp / HOUR) * HOUR);
+    const dayStart = BigInt(Math.floor(timestamp / DAY) * DAY);
+    context.ProtocolHourlySnapshot.set({ id: `${hourStart}`, periodStart: hourStart, ...totals });
+    context.ProtocolDailySnapshot.set({ id: `${dayStart}`, periodStart: dayStart, ...totals });
+
+    const state = {
+        strategy_id: strategy.id,
+        status: strategy.status,
+        currentAmountETH: strategy.currentAmountETH,
+        tokensHeld: strategy.tokensHeld,
+        contributorCount: strategy.contributorCount
+    };
+    const hourly = await context.StrategyHourlySnapshot.get(`${strategy.id}-${hourStart}`);
+    context.StrategyHourlySnapshot.set({
+        id: `${strategy.id}-${hourStart}`,
+        periodStart: hourStart,
+        ...state,
+        ethContributed: (hourly?.ethContributed || 0n) + (activity.ethContributed || 0n)
+    });
+    const daily = await context.StrategyDailySnapshot.get(`${strategy.id}-${dayStart}`);
+    context.StrategyDailySnapshot.set({
+        id: `${strategy.id}-${dayStart}`,
+        periodStart: dayStart,
+        ...state,
+        ethContributed: (daily?.ethContributed || 0n) + (activity.ethContributed || 0n)
+    });
+}
+
+/**
+ * Take `amount` off a position's pending contributions, oldest first, as the
+ * contract's single pendingAmount does. `settledFrom` is the arrival of the
+ * oldest contribution it touched, unset when none was indexed.
+ */
+function settlePending(position: { pendingAmounts: bigint[]; pendingTimestamps: bigint[] }, amount: bigint) {
+    const pendingAmounts = [...position.pendingAmounts];
+    const pendingTimestamps = [...position.pendingTimestamps];
+    const settledFrom = pendingTimestamps[0] as bigint | undefined;
+
+    let remaining = amount;
+    while (remaining > 0n && pendingAmounts.length > 0) {
+        if (pendingAmounts[0] > remaining) {
+            pendingAmounts[0] -= remaining;
+            break;
+        }
+        remaining -= pendingAmounts.shift()!;
+        pendingTimestamps.shift();
+    }
+
+    return { pending: { pendingAmounts, pendingTimestamps, pendingSince: pendingTimestamps[0] as bigint | undefined }, settledFrom };
+}
+
+function newPosition(strategyId: string, contributor: string, timestamp: number) {
+    return {
+        id: `${strategyId}-${contributor}`,
+        strategy_id: strategyId,
+        contributor_id: contributor,
+        ethContributed: 0n,
+        tokensOwed: 0n,
+        pendingAmountETH: 0n,
+        refundedAmountETH: 0n,
+        stakedTokens: 0n,
+        pendingSince: undefined as bigint | undefined,
+        pendingAmounts: [] as bigint[],
+        pendingTimestamps: [] as bigint[],
+        withdrawn: false,
+        updatedAt: BigInt(timestamp)
+    };
+}
+
+function newContributor(contributor: string) {
+    return {
+        id: contributor,
+        address: contributor,
+        totalContributedETH: 0n,
+        totalPendingETH: 0n,
+        totalRefundedETH: 0n,
+        strategiesBackedCount: 0n
+    };
+}
 
 // Dynamic Contract Registration
 XStrategyFactory.StrategyCreated.contractRegister(({ event, context }) => {
@@ -14,8 +181,29 @@ XStrategyFactory.StrategyCreated.contractRegister(({ event, context }) => {
 XStrategyFactory.StrategyCreated.handler(async ({ event, context }) => {
     const strategyId = event.params.strategy; // Address string
 
+    // StrategyCreated doesn't carry the milestones; read them on the event's chain as of its block.
+    // A failed read seeds none rather than stalling the indexer; MilestoneCompleted still records each completion.
+    let milestones: MilestoneInfo[] = [];
+    try {
+        milestones = await getMilestones(clientFor(event.chainId), event.params.strategy, BigInt(event.block.number));
+    } catch (error) {
+        context.log.error(`Could not read milestones of ${strategyId} at block ${event.block.number}: ${error}`);
+    }
+    milestones.forEach(({ unlockBps }, index) => {
+        context.Milestone.set({
+            id: `${strategyId}-${index}`,
+            strategy_id: strategyId,
+            index: BigInt(index),
+            unlockBps: BigInt(unlockBps),
+            completed: false,
+            proofHash: undefined,
+            completedAt: undefined,
+            completionTxHash: undefined
+        });
+    });
+
     // Initialize Strategy Entity
-    context.Strategy.set({
+    await recordStrategy(context, undefined, {
         id: strategyId,
         address: event.params.strategy,
         creator: event.params.strategyCreator,
@@ -23,13 +211,41 @@ XStrategyFactory.StrategyCreated.handler(async ({ event, context }) => {
         token: event.params.token,
         targetAmount: event.params.targetAmount,
         deadline: event.params.deadline,
-        status: "PENDING_CREATOR", // Initial state
+        status: "",
+        contractStatus: contractStatusName(ContractStatus.PENDING_CREATOR), // Initial state
+        creatorStatus: creatorStatusName(CreatorStatus.PENDING),
         currentAmountETH: 0n,
+        pendingAmountETH: 0n,
+        refundedAmountETH: 0n,
         tokensHeld: 0n,
+        tokensDeposited: 0n,
+        stakedTokens: 0n,
         creatorStake: 0n,
+        contributorCount: 0n,
+        milestonesCompleted: 0n,
+        milestonesTotal: BigInt(milestones.length),
+        operator: undefined,
+        splitAddress: undefined,
+        paused: false,
         createdAt: BigInt(event.block.timestamp),
+        unwindInitiatedAt: undefined,
         completedAt: undefined,
         success: undefined
+    }, event.block.timestamp);
+
+    // The factory counts the strategy against the designated creator's reputation
+    const creatorId = event.params.designatedCreator;
+    const creator = await context.Creator.get(creatorId);
+
+    context.Creator.set({
+        id: creatorId,
+        address: event.params.designatedCreator,
+        reputationScore: creator?.reputationScore ?? 50n,
+        strategiesCreatedCount: (creator?.strategiesCreatedCount || 0n) + 1n,
+        strategiesCompletedCount: creator?.strategiesCompletedCount || 0n,
+        strategiesSucceededCount: creator?.strategiesSucceededCount || 0n,
+        totalContributionsReceived: creator?.totalContributionsReceived || 0n,
+        lastActiveAt: creator?.lastActiveAt
     });
 });
 
@@ -37,25 +253,109 @@ XStrategyFactory.CreatorReputationUpdated.handler(async ({ event, context }) =>
     const creatorId = event.params.creator;
     const creator = await context.Creator.get(creatorId);
 
+    const strategiesCreatedCount = creator?.strategiesCreatedCount || 0n;
+    const strategiesCompletedCount = (creator?.strategiesCompletedCount || 0n) + 1n;
+    const strategiesSucceededCount = (creator?.strategiesSucceededCount || 0n) + (event.params.success ? 1n : 0n);
+    const totalContributionsReceived = (creator?.totalContributionsReceived || 0n) + event.params.contributions;
+
     context.Creator.set({
         id: creatorId,
         address: event.params.creator,
-        reputationScore: event.params.newScore,
-        strategiesCreatedCount: creator?.strategiesCreatedCount || 0n,
-        strategiesCompletedCount: creator?.strategiesCompletedCount || 0n
+        reputationScore: creatorScore(strategiesCreatedCount, strategiesSucceededCount, strategiesCompletedCount, totalContributionsReceived),
+        strategiesCreatedCount,
+        strategiesCompletedCount,
+        strategiesSucceededCount,
+        totalContributionsReceived,
+        lastActiveAt: BigInt(event.block.timestamp)
     });
 });
 
+XStrategyFactory.ContributorReputationUpdated.handler(async ({ event, context }) => {
+    const contributorId = event.params.contributor;
+    const reputation = await context.ContributorReputation.get(contributorId);
+
+    context.ContributorReputation.set({
+        id: contributorId,
+        address: event.params.contributor,
+        strategiesBacked: (reputation?.strategiesBacked || 0n) + 1n,
+        successfulBacks: (reputation?.successfulBacks || 0n) + (event.params.success ? 1n : 0n),
+        earlyParticipations: (reputation?.earlyParticipations || 0n) + (event.params.wasEarly ? 1n : 0n),
+        totalContributed: (reputation?.totalContributed || 0n) + event.params.amount
+    });
+});
+
+XStrategyFactory.StrategyPaused.handler(async ({ event, context }) => {
+    const strategy = await context.Strategy.get(event.params.strategy);
+
+    if (strategy) {
+        await recordStrategy(context, strategy, { ...strategy, paused: true }, event.block.timestamp);
+    }
+});
+
+XStrategyFactory.StrategyUnpaused.handler(async ({ event, context }) => {
+    const strategy = await context.Strategy.get(event.params.strategy);
+
+    if (strategy) {
+        await recordStrategy(context, strategy, { ...strategy, paused: false }, event.block.timestamp);
+    }
+});
+
 XStrategy.CreatorOptedIn.handler(async ({ event, context }) => {
     const strategyId = event.srcAddress;
     const strategy = await context.Strategy.get(strategyId);
 
     if (strategy) {
-        context.Strategy.set({
+        await recordStrategy(context, strategy, {
             ...strategy,
-            status: "ACTIVE",
+            contractStatus: contractStatusName(ContractStatus.ACTIVE),
+            creatorStatus: creatorStatusName(CreatorStatus.OPTED_IN),
             creatorStake: event.params.stakeAmount
-        });
+        }, event.block.timestamp);
+    }
+});
+
+XStrategy.CreatorRejected.handler(async ({ event, context }) => {
+    const strategyId = event.srcAddress;
+    const strategy = await context.Strategy.get(strategyId);
+
+    // rejectStrategy fails the strategy outright, without a StrategyCompleted event
+    if (strategy) {
+        await recordStrategy(context, strategy, {
+            ...strategy,
+            contractStatus: contractStatusName(ContractStatus.COMPLETED_FAILURE),
+            creatorStatus: creatorStatusName(CreatorStatus.REJECTED),
+            completedAt: BigInt(event.block.timestamp),
+            success: false
+        }, event.block.timestamp);
+    }
+});
+
+XStrategy.ContributionPending.handler(async ({ event, context }) => {
+    const strategyId = event.srcAddress;
+    const strategy = await context.Strategy.get(strategyId);
+    const contributorId = event.params.contributor;
+    const position = await context.Position.get(`${strategyId}-${contributorId}`)
+        ?? newPosition(strategyId, contributorId, event.block.timestamp);
+    const contributor = await context.Contributor.get(contributorId) ?? newContributor(contributorId);
+
+    context.Position.set({
+        ...position,
+        pendingAmountETH: position.pendingAmountETH + event.params.amount,
+        pendingSince: position.pendingSince ?? BigInt(event.block.timestamp),
+        pendingAmounts: [...position.pendingAmounts, event.params.amount],
+        pendingTimestamps: [...position.pendingTimestamps, BigInt(event.block.timestamp)],
+        updatedAt: BigInt(event.block.timestamp)
+    });
+    context.Contributor.set({
+        ...contributor,
+        totalPendingETH: contributor.totalPendingETH + event.params.amount
+    });
+
+    if (strategy) {
+        await recordStrategy(context, strategy, {
+            ...strategy,
+            pendingAmountETH: strategy.pendingAmountETH + event.params.amount
+        }, event.block.timestamp);
     }
 });
 
@@ -76,26 +376,266 @@ XStrategy.ContributionConfirmed.handler(async ({ event, context }) => {
         txHash: event.transaction.hash
     });
 
+    // Update the contributor's position; a batched fill may confirm a slightly different amount than was pending
+    const contributorId = event.params.contributor;
+    const position = await context.Position.get(`${strategyId}-${contributorId}`)
+        ?? newPosition(strategyId, contributorId, event.block.timestamp);
+    const contributor = await context.Contributor.get(contributorId) ?? newContributor(contributorId);
+    const pendingAmountETH = subtractFloor(position.pendingAmountETH, event.params.ethAmount);
+    const { pending, settledFrom } = settlePending(position, event.params.ethAmount);
+
+    context.Position.set({
+        ...position,
+        ...pending,
+        ethContributed: position.ethContributed + event.params.ethAmount,
+        tokensOwed: position.tokensOwed + event.params.tokensReceived,
+        pendingAmountETH,
+        updatedAt: BigInt(event.block.timestamp)
+    });
+    context.Contributor.set({
+        ...contributor,
+        totalContributedETH: contributor.totalContributedETH + event.params.ethAmount,
+        totalPendingETH: subtractFloor(contributor.totalPendingETH, position.pendingAmountETH - pendingAmountETH),
+        strategiesBackedCount: contributor.strategiesBackedCount + (position.ethContributed === 0n ? 1n : 0n)
+    });
+
+    // Audit the fill against its pending contribution and the strategy's earlier fills
+    const operatorId = event.transaction.from ?? strategy?.operator;
+    if (operatorId && event.params.tokensReceived > 0n) {
+        const price = (event.params.ethAmount * PRICE_SCALE) / event.params.tokensReceived;
+        const strategyAveragePrice = strategy && strategy.tokensHeld > 0n
+            ? (strategy.currentAmountETH * PRICE_SCALE) / strategy.tokensHeld
+            : undefined;
+        const priceDeviationBps = strategyAveragePrice
+            ? ((price - strategyAveragePrice) * 10_000n) / strategyAveragePrice
+            : undefined;
+        const latencySeconds = settledFrom !== undefined
+            ? BigInt(event.block.timestamp) - settledFrom
+            : undefined;
+
+        context.OperatorFill.set({
+            id: contributionId,
+            strategy_id: strategyId,
+            operator_id: operatorId,
+            contribution_id: contributionId,
+            contributor: contributorId,
+            ethAmount: event.params.ethAmount,
+            tokensReceived: event.params.tokensReceived,
+            price,
+            strategyAveragePrice,
+            priceDeviationBps,
+            pendingAt: settledFrom,
+            confirmedAt: BigInt(event.block.timestamp),
+            latencySeconds,
+            txHash: event.transaction.hash
+        });
+
+        const operator = await context.Operator.get(operatorId);
+        const timedFillCount = (operator?.timedFillCount || 0n) + (latencySeconds !== undefined ? 1n : 0n);
+        const totalLatencySeconds = (operator?.totalLatencySeconds || 0n) + (latencySeconds ?? 0n);
+        const comparedFillCount = (operator?.comparedFillCount || 0n) + (priceDeviationBps !== undefined ? 1n : 0n);
+        const totalPriceDeviationBps = (operator?.totalPriceDeviationBps || 0n) + (priceDeviationBps ?? 0n);
+        const worst = operator?.worstPriceDeviationBps;
+
+        context.Operator.set({
+            id: operatorId,
+            address: operatorId,
+            fillCount: (operator?.fillCount || 0n) + 1n,
+            totalETH: (operator?.totalETH || 0n) + event.params.ethAmount,
+            totalTokens: (operator?.totalTokens || 0n) + event.params.tokensReceived,
+            timedFillCount,
+            totalLatencySeconds,
+            maxLatencySeconds: latencySeconds !== undefined && latencySeconds > (operator?.maxLatencySeconds || 0n)
+                ? latencySeconds
+                : operator?.maxLatencySeconds || 0n,
+            averageLatencySeconds: timedFillCount > 0n ? Number(totalLatencySeconds) / Number(timedFillCount) : 0,
+            comparedFillCount,
+            totalPriceDeviationBps,
+            worstPriceDeviationBps: priceDeviationBps !== undefined && (worst === undefined || priceDeviationBps > worst)
+                ? priceDeviationBps
+                : worst,
+            averagePriceDeviationBps: comparedFillCount > 0n ? Number(totalPriceDeviationBps) / Number(comparedFillCount) : 0
+        });
+    }
+
     // Update Strategy Totals
     if (strategy) {
-        context.Strategy.set({
+        await recordStrategy(context, strategy, {
             ...strategy,
             currentAmountETH: strategy.currentAmountETH + event.params.ethAmount,
-            tokensHeld: strategy.tokensHeld + event.params.tokensReceived
+            pendingAmountETH: subtractFloor(strategy.pendingAmountETH, event.params.ethAmount),
+            tokensHeld: strategy.tokensHeld + event.params.tokensReceived,
+            contributorCount: strategy.contributorCount + (position.ethContributed === 0n ? 1n : 0n)
+        }, event.block.timestamp, {
+            ethContributed: event.params.ethAmount,
+            newContributor: contributor.strategiesBackedCount === 0n && position.ethContributed === 0n
         });
     }
 });
 
+XStrategy.ContributionRefunded.handler(async ({ event, context }) => {
+    const strategyId = event.srcAddress;
+    const strategy = await context.Strategy.get(strategyId);
+    const contributorId = event.params.contributor;
+    const position = await context.Position.get(`${strategyId}-${contributorId}`)
+        ?? newPosition(strategyId, contributorId, event.block.timestamp);
+    const contributor = await context.Contributor.get(contributorId) ?? newContributor(contributorId);
+    const pendingAmountETH = subtractFloor(position.pendingAmountETH, event.params.amount);
+    const { pending } = settlePending(position, event.params.amount);
+
+    context.Position.set({
+        ...position,
+        ...pending,
+        pendingAmountETH,
+        refundedAmountETH: position.refundedAmountETH + event.params.amount,
+        updatedAt: BigInt(event.block.timestamp)
+    });
+    context.Contributor.set({
+        ...contributor,
+        totalPendingETH: subtractFloor(contributor.totalPendingETH, position.pendingAmountETH - pendingAmountETH),
+        totalRefundedETH: contributor.totalRefundedETH + event.params.amount
+    });
+
+    if (strategy) {
+        await recordStrategy(context, strategy, {
+            ...strategy,
+            pendingAmountETH: subtractFloor(strategy.pendingAmountETH, event.params.amount),
+            refundedAmountETH: strategy.refundedAmountETH + event.params.amount
+        }, event.block.timestamp);
+    }
+});
+
+XStrategy.TokensReceived.handler(async ({ event, context }) => {
+    const strategyId = event.srcAddress;
+    const strategy = await context.Strategy.get(strategyId);
+
+    // tokensHeld only moves on ContributionConfirmed; this tracks what the operator actually deposited
+    if (strategy) {
+        await recordStrategy(context, strategy, {
+            ...strategy,
+            tokensDeposited: strategy.tokensDeposited + event.params.amount,
+            operator: strategy.operator ?? event.params.operator
+        }, event.block.timestamp);
+    }
+});
+
+XStrategy.MilestoneCompleted.handler(async ({ event, context }) => {
+    const strategyId = event.srcAddress;
+    const strategy = await context.Strategy.get(strategyId);
+    const milestoneId = `${strategyId}-${event.params.milestoneId}`;
+    // Missing when StrategyCreated could not read the milestones; its unlock share stays unknown
+    const milestone = await context.Milestone.get(milestoneId) ?? {
+        id: milestoneId,
+        strategy_id: strategyId,
+        index: event.params.milestoneId,
+        unlockBps: 0n,
+        completed: false,
+        proofHash: undefined,
+        completedAt: undefined,
+        completionTxHash: undefined
+    };
+
+    context.Milestone.set({
+        ...milestone,
+        completed: true,
+        proofHash: event.params.proofHash,
+        completedAt: BigInt(event.block.timestamp),
+        completionTxHash: event.transaction.hash
+    });
+
+    if (strategy) {
+        const milestonesCompleted = strategy.milestonesCompleted + 1n;
+        await recordStrategy(context, strategy, {
+            ...strategy,
+            milestonesCompleted,
+            milestonesTotal: strategy.milestonesTotal < milestonesCompleted ? milestonesCompleted : strategy.milestonesTotal
+        }, event.block.timestamp);
+    }
+});
+
+XStrategy.UnwindInitiated.handler(async ({ event, context }) => {
+    const strategyId = event.srcAddress;
+    const strategy = await context.Strategy.get(strategyId);
+
+    if (strategy) {
+        await recordStrategy(context, strategy, {
+            ...strategy,
+            contractStatus: contractStatusName(ContractStatus.UNWINDING),
+            unwindInitiatedAt: event.params.timestamp
+        }, event.block.timestamp);
+    }
+});
+
+XStrategy.SplitCreated.handler(async ({ event, context }) => {
+    const strategyId = event.srcAddress;
+    const strategy = await context.Strategy.get(strategyId);
+
+    if (strategy) {
+        await recordStrategy(context, strategy, {
+            ...strategy,
+            splitAddress: event.params.splitAddress
+        }, event.block.timestamp);
+    }
+});
+
+// Emitted by milestone completion and by executeUnwind, which ends UNWINDING as a failure
 XStrategy.StrategyCompleted.handler(async ({ event, context }) => {
     const strategyId = event.srcAddress;
     const strategy = await context.Strategy.get(strategyId);
 
     if (strategy) {
-        context.Strategy.set({
+        await recordStrategy(context, strategy, {
             ...strategy,
-            status: event.params.success ? "COMPLETED_SUCCESS" : "COMPLETED_FAILURE",
+            contractStatus: contractStatusName(event.params.success ? ContractStatus.COMPLETED_SUCCESS : ContractStatus.COMPLETED_FAILURE),
             completedAt: BigInt(event.block.timestamp),
             success: event.params.success
-        });
+        }, event.block.timestamp);
+    }
+});
+
+XStrategy.TokensStaked.handler(async ({ event, context }) => {
+    const strategyId = event.srcAddress;
+    const strategy = await context.Strategy.get(strategyId);
+    const position = await context.Position.get(`${strategyId}-${event.params.contributor}`);
+
+    // Only contributors can stake, so the position already exists
+    if (position) {
+        context.Position.set({ ...position, stakedTokens: position.stakedTokens + event.params.amount, updatedAt: BigInt(event.block.timestamp) });
+    }
+
+    if (strategy) {
+        await recordStrategy(context, strategy, {
+            ...strategy,
+            stakedTokens: strategy.stakedTokens + event.params.amount
+        }, event.block.timestamp);
+    }
+});
+
+XStrategy.TokensUnstaked.handler(async ({ event, context }) => {
+    const strategyId = event.srcAddress;
+    const strategy = await context.Strategy.get(strategyId);
+    const position = await context.Position.get(`${strategyId}-${event.params.contributor}`);
+
+    if (position) {
+        context.Position.set({ ...position, stakedTokens: subtractFloor(position.stakedTokens, event.params.amount), updatedAt: BigInt(event.block.timestamp) });
+    }
+
+    if (strategy) {
+        await recordStrategy(context, strategy, {
+            ...strategy,
+            stakedTokens: subtractFloor(strategy.stakedTokens, event.params.amount)
+        }, event.block.timestamp);
+    }
+});
+
+XStrategy.OperatorUpdated.handler(async ({ event, context }) => {
+    const strategyId = event.srcAddress;
+    const strategy = await context.Strategy.get(strategyId);
+
+    if (strategy) {
+        await recordStrategy(context, strategy, {
+            ...strategy,
+            operator: event.params.newOperator
+        }, event.block.timestamp);
     }
 });
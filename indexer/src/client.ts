@@ -0,0 +1,30 @@
+/*
+ * RPC clients for reads the events don't carry, such as a strategy's milestone configuration.
+ * One per chain the indexer follows, so a read goes to the chain the event came from.
+ */
+import { createPublicClient, http, type Chain, type PublicClient } from "viem";
+import { base, baseSepolia, foundry, zora, zoraSepolia, zoraTestnet } from "viem/chains";
+
+// Same set the operator supports
+const CHAINS: Record<number, Chain> = Object.fromEntries(
+    [base, baseSepolia, zora, zoraSepolia, zoraTestnet, foundry].map(chain => [chain.id, chain])
+);
+
+const clients = new Map<number, PublicClient>();
+
+/**
+ * Client for `chainId`, using ENVIO_RPC_URL_<chainId> when set, then ENVIO_RPC_URL,
+ * then the chain's public RPC.
+ */
+export function clientFor(chainId: number): PublicClient {
+    let client = clients.get(chainId);
+    if (!client) {
+        const chain = CHAINS[chainId];
+        if (!chain) throw new Error(`No RPC client configured for chain ${chainId}`);
+
+        const url = process.env[`ENVIO_RPC_URL_${chainId}`] || process.env.ENVIO_RPC_URL || undefined;
+        client = createPublicClient({ chain, transport: http(url) }) as PublicClient;
+        clients.set(chainId, client);
+    }
+    return client;
+}
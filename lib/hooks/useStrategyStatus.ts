@@ -0,0 +1,18 @@
+import { useQuery } from '@tanstack/react-query';
+import { usePublicClient } from 'wagmi';
+import { deriveStrategyStatus, readStrategyState } from '@x-strategy/sdk';
+
+/**
+ * Live StrategyStatus and computed fields for a deployed strategy. Re-derived
+ * every minute so time-based states like ENDING_SOON flip without a new event.
+ */
+export function useStrategyStatus(address?: `0x${string}`) {
+  const client = usePublicClient();
+
+  return useQuery({
+    queryKey: ['strategy-status', client?.chain.id, address],
+    enabled: !!client && !!address,
+    refetchInterval: 60_000,
+    queryFn: async () => deriveStrategyStatus(await readStrategyState(client!, address!)),
+  });
+}
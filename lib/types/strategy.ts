@@ -7,17 +7,9 @@
 // Enums
 // ============================================================================
 
-export enum StrategyStatus {
-  PENDING_CREATOR = 'pending_creator',
-  DRAFT = 'draft',
-  FUNDING = 'funding', // Raising funds to hit threshold
-  ACTIVE = 'active', // Threshold hit, execution phase
-  ENDING_SOON = 'ending_soon', // < 48h remaining
-  COMPLETED_SUCCESS = 'completed_success',
-  COMPLETED_FAILURE = 'completed_failure',
-  UNWINDING = 'unwinding',
-  CANCELLED = 'cancelled',
-}
+// Shared with the operator and indexer; derive it from chain state with deriveStrategyStatus
+import { StrategyStatus } from '@x-strategy/sdk'
+export { StrategyStatus }
 
 export enum CommitmentLevel {
   CLAIMED = 0,     // Creator claims they'll deliver (lowest trust)
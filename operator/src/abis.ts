@@ -1,87 +1,113 @@
-export const XStrategyFactoryABI = [
-    {
-        "type": "event",
-        "name": "StrategyCreated",
-        "inputs": [
-            { "name": "strategy", "type": "address", "indexed": true },
-            { "name": "strategyCreator", "type": "address", "indexed": true },
-            { "name": "designatedCreator", "type": "address", "indexed": true },
-            { "name": "token", "type": "address", "indexed": false },
-            { "name": "targetAmount", "type": "uint256", "indexed": false },
-            { "name": "deadline", "type": "uint256", "indexed": false }
-        ]
-    }
-] as const;
+// XStrategy and its factory come from the shared SDK; the rest are the swap venues only the operator talks to
+export { XStrategyABI, XStrategyFactoryABI, ContractStatus, CreatorStatus } from '@x-strategy/sdk';
 
-export const XStrategyABI = [
+export const ERC20ABI = [
     {
         "type": "event",
-        "name": "ContributionPending",
+        "name": "Transfer",
         "inputs": [
-            { "name": "contributor", "type": "address", "indexed": true },
-            { "name": "amount", "type": "uint256", "indexed": false }
+            { "name": "from", "type": "address", "indexed": true },
+            { "name": "to", "type": "address", "indexed": true },
+            { "name": "value", "type": "uint256", "indexed": false }
         ]
     },
     {
+        "name": "approve",
         "type": "function",
-        "name": "confirmSwap",
-        "inputs": [
-            { "name": "contributor", "type": "address" },
-            { "name": "ethAmount", "type": "uint256" },
-            { "name": "tokensReceived", "type": "uint256" },
-            { "name": "minExpected", "type": "uint256" }
-        ],
-        "outputs": [],
-        "stateMutability": "nonpayable"
-    },
-    {
-        "type": "function",
-        "name": "receiveTokens",
+        "stateMutability": "nonpayable",
         "inputs": [
+            { "name": "spender", "type": "address" },
             { "name": "amount", "type": "uint256" }
         ],
-        "outputs": [],
-        "stateMutability": "nonpayable"
+        "outputs": [{ "name": "", "type": "bool" }]
     },
     {
+        "name": "balanceOf",
         "type": "function",
-        "name": "token",
-        "inputs": [],
-        "outputs": [{ "name": "", "type": "address" }],
-        "stateMutability": "view"
+        "stateMutability": "view",
+        "inputs": [{ "name": "account", "type": "address" }],
+        "outputs": [{ "name": "", "type": "uint256" }]
     },
     {
+        "name": "decimals",
         "type": "function",
-        "name": "status",
+        "stateMutability": "view",
         "inputs": [],
-        "outputs": [{ "name": "", "type": "uint8" }],
-        "stateMutability": "view"
+        "outputs": [{ "name": "", "type": "uint8" }]
     }
 ] as const;
 
-export const ERC20ABI = [
+export const UniswapV3QuoterV2ABI = [
     {
-        "name": "approve",
+        "name": "quoteExactInputSingle",
         "type": "function",
         "stateMutability": "nonpayable",
         "inputs": [
-            { "name": "spender", "type": "address" },
-            { "name": "amount", "type": "uint256" }
+            {
+                "name": "params",
+                "type": "tuple",
+                "components": [
+                    { "name": "tokenIn", "type": "address" },
+                    { "name": "tokenOut", "type": "address" },
+                    { "name": "amountIn", "type": "uint256" },
+                    { "name": "fee", "type": "uint24" },
+                    { "name": "sqrtPriceLimitX96", "type": "uint160" }
+                ]
+            }
         ],
-        "outputs": [{ "name": "", "type": "bool" }]
-    },
+        "outputs": [
+            { "name": "amountOut", "type": "uint256" },
+            { "name": "sqrtPriceX96After", "type": "uint160" },
+            { "name": "initializedTicksCrossed", "type": "uint32" },
+            { "name": "gasEstimate", "type": "uint256" }
+        ]
+    }
+] as const;
+
+export const UniswapV3RouterABI = [
     {
-        "name": "balanceOf",
+        "name": "exactInputSingle",
+        "type": "function",
+        "stateMutability": "payable",
+        "inputs": [
+            {
+                "name": "params",
+                "type": "tuple",
+                "components": [
+                    { "name": "tokenIn", "type": "address" },
+                    { "name": "tokenOut", "type": "address" },
+                    { "name": "fee", "type": "uint24" },
+                    { "name": "recipient", "type": "address" },
+                    { "name": "amountIn", "type": "uint256" },
+                    { "name": "amountOutMinimum", "type": "uint256" },
+                    { "name": "sqrtPriceLimitX96", "type": "uint160" }
+                ]
+            }
+        ],
+        "outputs": [{ "name": "amountOut", "type": "uint256" }]
+    }
+] as const;
+
+export const MockAMMABI = [
+    {
+        "name": "getAmountOut",
         "type": "function",
         "stateMutability": "view",
-        "inputs": [{ "name": "account", "type": "address" }],
+        "inputs": [
+            { "name": "token", "type": "address" },
+            { "name": "ethIn", "type": "uint256" }
+        ],
         "outputs": [{ "name": "", "type": "uint256" }]
     },
     {
-        "name": "decimals",
+        "name": "swapExactETHForTokens",
         "type": "function",
-        "stateMutability": "view",
-        "inputs": [],
-        "outputs": [{ "name": "", "type": "uint8" }]
+        "stateMutability": "payable",
+        "inputs": [
+            { "name": "token", "type": "address" },
+            { "name": "minOut", "type": "uint256" },
+            { "name": "to", "type": "address" }
+        ],
+        "outputs": [{ "name": "tokensOut", "type": "uint256" }]
     }
 ] as const;
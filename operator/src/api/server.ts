@@ -0,0 +1,138 @@
+import http from 'http';
+import { timingSafeEqual } from 'crypto';
+import { publicClient, CONFIG } from '../config';
+import { renderMetrics } from '../metrics';
+import { retryJob, abandonJob } from '../services/chainService';
+import { retryBatch } from '../services/batchService';
+import { cancelTransaction, DroppedTransactionError } from '../services/txManager';
+import { listWatchedStrategies } from '../services/watcherService';
+import { getCheckpoint } from '../store/checkpointStore';
+import { getJob, listJobs } from '../store/jobStore';
+import { listReports } from '../store/reportStore';
+import { getBatch } from '../store/batchStore';
+import { listLedgers } from '../store/ledgerStore';
+
+class HttpError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+// BigInts are not JSON-serialisable; expose them as decimal strings
+function json(res: http.ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body, (_key, value) => (typeof value === 'bigint' ? value.toString() : value)));
+}
+
+function requireAdmin(req: http.IncomingMessage) {
+    if (!CONFIG.ADMIN_TOKEN) throw new HttpError(403, 'Admin endpoints disabled (ADMIN_TOKEN not set)');
+
+    const provided = Buffer.from(req.headers.authorization ?? '');
+    const expected = Buffer.from(`Bearer ${CONFIG.ADMIN_TOKEN}`);
+    if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+        throw new HttpError(401, 'Unauthorized');
+    }
+}
+
+async function route(req: http.IncomingMessage, res: http.ServerResponse) {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+    if (req.method === 'GET' && pathname === '/health') {
+        try {
+            const blockNumber = await publicClient.getBlockNumber();
+            return json(res, 200, { status: 'ok', chainId: CONFIG.CHAIN.id, blockNumber, uptime: process.uptime() });
+        } catch (error) {
+            return json(res, 503, { status: 'rpc_unavailable', error: error instanceof Error ? error.message : String(error) });
+        }
+    }
+
+    if (req.method === 'GET' && pathname === '/metrics') {
+        const body = await renderMetrics();
+        res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' });
+        return res.end(body);
+    }
+
+    if (req.method === 'GET' && pathname === '/strategies') {
+        return json(res, 200, listWatchedStrategies().map(address => ({
+            address,
+            lastProcessedBlock: getCheckpoint(address) ?? null
+        })));
+    }
+
+    if (req.method === 'GET' && pathname === '/reconciliation') {
+        return json(res, 200, listLedgers());
+    }
+
+    if (req.method === 'GET' && pathname === '/stranded') {
+        return json(res, 200, listJobs(job => !!job.strandedTokens).map(job => ({
+            jobId: job.id,
+            strategy: job.strategy,
+            contributor: job.contributor,
+            orphanedAt: job.orphanedAt,
+            ...job.strandedTokens
+        })));
+    }
+
+    if (req.method === 'GET' && pathname === '/dry-run/reports') {
+        return json(res, 200, listReports());
+    }
+
+    const jobAction = pathname.match(/^\/jobs\/([^/]+)\/(retry|abandon)$/);
+    if (req.method === 'POST' && jobAction) {
+        requireAdmin(req);
+        const [, id, action] = jobAction;
+        const jobId = decodeURIComponent(id);
+        if (!getJob(jobId)) throw new HttpError(404, `Unknown job: ${jobId}`);
+
+        try {
+            const job = action === 'retry' ? retryJob(jobId) : abandonJob(jobId);
+            return json(res, 200, job);
+        } catch (error) {
+            throw new HttpError(409, error instanceof Error ? error.message : String(error));
+        }
+    }
+
+    const batchRetry = pathname.match(/^\/batches\/([^/]+)\/retry$/);
+    if (req.method === 'POST' && batchRetry) {
+        requireAdmin(req);
+        const batchId = decodeURIComponent(batchRetry[1]);
+        if (!getBatch(batchId)) throw new HttpError(404, `Unknown batch: ${batchId}`);
+
+        try {
+            return json(res, 200, retryBatch(batchId));
+        } catch (error) {
+            throw new HttpError(409, error instanceof Error ? error.message : String(error));
+        }
+    }
+
+    const txCancel = pathname.match(/^\/transactions\/([^/]+)\/cancel$/);
+    if (req.method === 'POST' && txCancel) {
+        requireAdmin(req);
+        const hash = decodeURIComponent(txCancel[1]);
+        if (!/^0x[0-9a-fA-F]{64}$/.test(hash)) throw new HttpError(400, `Not a transaction hash: ${hash}`);
+
+        try {
+            const cancellation = await cancelTransaction(hash as `0x${string}`);
+            return json(res, 200, { hash, cancellation });
+        } catch (error) {
+            const status = error instanceof DroppedTransactionError ? 404 : 409;
+            throw new HttpError(status, error instanceof Error ? error.message : String(error));
+        }
+    }
+
+    throw new HttpError(404, 'Not found');
+}
+
+export function startApiServer() {
+    const server = http.createServer((req, res) => {
+        route(req, res).catch(error => {
+            const status = error instanceof HttpError ? error.status : 500;
+            json(res, status, { error: error instanceof Error ? error.message : String(error) });
+        });
+    });
+
+    server.listen(CONFIG.ADMIN_PORT, () => {
+        console.log(`Admin API listening on :${CONFIG.ADMIN_PORT}`);
+    });
+    return server;
+}
@@ -0,0 +1,88 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * One entry per chain in CHAINS_CONFIG_PATH. Each chain gets its own operator
+ * process, so nonces, stores and watchers never mix between chains.
+ */
+export interface ChainWorkerConfig {
+    name: string; // Used for log prefixes and the worker's data directory
+    chainId: number;
+    rpcUrl: string;
+    factoryAddress: `0x${string}`;
+    privateKeyEnv?: string; // Name of the env var holding this chain's operator key; keys never live in the file
+    signer?: RemoteSignerConfig; // Sign through a remote signer instead; no key is passed to the worker
+    swapProviders?: string[];
+    adminPort?: number;
+    env?: Record<string, string>; // Any other operator setting, e.g. WETH_ADDRESS or UNISWAP_ROUTER
+}
+
+export interface RemoteSignerConfig {
+    url: string;
+    address: `0x${string}`;
+    authTokenEnv?: string; // Name of the env var holding the signer's bearer token
+}
+
+const SIGNING_ENV = ['PRIVATE_KEY', 'SIGNER', 'SIGNER_URL', 'SIGNER_ADDRESS', 'SIGNER_AUTH_TOKEN'];
+
+export function loadChains(): ChainWorkerConfig[] {
+    const configPath = process.env.CHAINS_CONFIG_PATH || './chains.json';
+    const { chains } = JSON.parse(fs.readFileSync(configPath, 'utf8')) as { chains: ChainWorkerConfig[] };
+    if (!Array.isArray(chains) || chains.length === 0) throw new Error(`No chains configured in ${configPath}`);
+
+    const names = new Set<string>();
+    for (const chain of chains) {
+        if (!chain.name || !chain.chainId || !chain.rpcUrl || !chain.factoryAddress) {
+            throw new Error(`Chain entry ${JSON.stringify(chain.name)} needs name, chainId, rpcUrl and factoryAddress`);
+        }
+        if (names.has(chain.name)) throw new Error(`Duplicate chain name: ${chain.name}`);
+        if (Object.keys(chain.env ?? {}).some(key => SIGNING_ENV.includes(key))) {
+            throw new Error(`Chain ${chain.name}: set signing through privateKeyEnv or signer, not env`);
+        }
+        if (chain.signer) {
+            if (!chain.signer.url || !chain.signer.address) throw new Error(`Chain ${chain.name}: signer needs url and address`);
+            if (chain.signer.authTokenEnv && !process.env[chain.signer.authTokenEnv]) {
+                throw new Error(`${chain.signer.authTokenEnv} is not set (signer token for ${chain.name})`);
+            }
+        } else {
+            if (!chain.privateKeyEnv) throw new Error(`Chain ${chain.name} needs privateKeyEnv or signer`);
+            if (!process.env[chain.privateKeyEnv]) throw new Error(`${chain.privateKeyEnv} is not set (operator key for ${chain.name})`);
+        }
+        names.add(chain.name);
+    }
+    return chains;
+}
+
+/**
+ * Environment for one worker: the supervisor's own env (shared settings like
+ * ZERO_EX_API_KEY) overlaid with the chain's settings.
+ */
+export function workerEnv(chain: ChainWorkerConfig, index: number): NodeJS.ProcessEnv {
+    const basePort = Number(process.env.ADMIN_PORT || 8787);
+    const baseDataDir = process.env.DATA_DIR || './data';
+
+    // Signing settings are per chain; none of the supervisor's own leak into a worker
+    const shared = { ...process.env };
+    for (const key of SIGNING_ENV) delete shared[key];
+    const signing: NodeJS.ProcessEnv = chain.signer
+        ? {
+            SIGNER: 'remote',
+            SIGNER_URL: chain.signer.url,
+            SIGNER_ADDRESS: chain.signer.address,
+            ...(chain.signer.authTokenEnv && { SIGNER_AUTH_TOKEN: process.env[chain.signer.authTokenEnv] })
+        }
+        : { SIGNER: 'local', PRIVATE_KEY: process.env[chain.privateKeyEnv!] };
+
+    return {
+        ...shared,
+        ...chain.env,
+        ...signing,
+        CHAIN_NAME: chain.name,
+        CHAIN_ID: String(chain.chainId),
+        RPC_URL: chain.rpcUrl,
+        FACTORY_ADDRESS: chain.factoryAddress,
+        ...(chain.swapProviders && { SWAP_PROVIDERS: chain.swapProviders.join(',') }),
+        ADMIN_PORT: String(chain.adminPort ?? basePort + index),
+        DATA_DIR: chain.env?.DATA_DIR ?? path.join(baseDataDir, chain.name)
+    };
+}
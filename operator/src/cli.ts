@@ -0,0 +1,200 @@
+#!/usr/bin/env node
+import './cliChain';
+import { formatEther, getAddress, isAddress } from 'viem';
+import { publicClient, CONFIG } from './config';
+import { readStrategyState, deriveStrategyStatus, contractStatusName, creatorStatusName } from '@x-strategy/sdk';
+import { XStrategyFactoryABI, XStrategyABI } from './abis';
+import { processJob, retryJob, isInFlight } from './services/chainService';
+import { removeFromBatch } from './services/batchService';
+import { performKeeperAction } from './services/keeperService';
+import { refundContributor } from './services/sweeperService';
+import { withdrawBalance } from './services/reconciliationService';
+import { cancelTransaction } from './services/txManager';
+import { getJob, listJobs } from './store/jobStore';
+
+const USAGE = `Usage: xstrat-op [--chain <name>] <command> [args]
+
+  strategies                         List strategies with their status and funding
+  pending <strategy>                 List pending contributions and their operator jobs
+  stranded                           List tokens bought for contributions that were reorged out
+  process <jobId>                    Run a job now as a single swap, retrying it if it failed
+  refund <strategy> <contributor>    Refund a contributor's pending ETH via the factory
+  initiate-unwind <strategy>         Call initiateUnwind
+  execute-unwind <strategy>          Call executeUnwind
+  distribute <strategy>              Call distribute
+  withdraw [strategy]                Withdraw operator balances (all strategies if none given)
+  cancel <txHash>                    Replace a pending operator tx with a 0-value self-transfer
+
+Reads the operator's .env; set DRY_RUN=true to preview write commands. With --chain, targets that
+chain from CHAINS_CONFIG_PATH: its RPC, signer, DATA_DIR and admin port, as the supervisor runs it.`;
+
+function sleep(ms: number) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function addressArg(value: string | undefined, name: string): `0x${string}` {
+    if (!value || !isAddress(value)) throw new Error(`Expected <${name}> address, got ${value ?? 'nothing'}\n\n${USAGE}`);
+    return getAddress(value);
+}
+
+function listStrategies() {
+    return publicClient.readContract({
+        address: CONFIG.FACTORY_ADDRESS,
+        abi: XStrategyFactoryABI,
+        functionName: 'getAllStrategies'
+    });
+}
+
+/**
+ * The job store is held in memory and rewritten whole on every change, so a
+ * running service would clobber what the CLI writes (and vice versa), and both
+ * would hand out the same nonces. Write commands insist the service is down.
+ */
+async function assertServiceStopped() {
+    const url = `http://localhost:${CONFIG.ADMIN_PORT}/health`;
+    const running = await fetch(url, { signal: AbortSignal.timeout(1_000) }).then(() => true, () => false);
+    if (running) {
+        throw new Error(`The operator service is running (${url} answered). Stop it first, or use its admin API for job retries.`);
+    }
+}
+
+async function showStrategies() {
+    const strategies = await listStrategies();
+    const rows = await Promise.all(strategies.map(async address => {
+        const state = await readStrategyState(publicClient, address);
+        const derived = deriveStrategyStatus(state);
+        return {
+            address,
+            status: derived.status,
+            contract: contractStatusName(state.status),
+            creator: creatorStatusName(state.creatorStatus),
+            contributedEth: formatEther(state.totalContributed),
+            funded: `${derived.fundingPercentage}%`,
+            milestones: `${derived.milestonesCompleted}/${derived.milestonesTotal}`,
+            remaining: derived.timeRemaining > 0 ? `${(derived.timeRemaining / 3600).toFixed(1)}h` : 'ended'
+        };
+    }));
+    if (rows.length === 0) console.log(`No strategies on factory ${CONFIG.FACTORY_ADDRESS}`);
+    else console.table(rows);
+}
+
+async function showPending(strategy: `0x${string}`) {
+    const [contributors, timeout, block] = await Promise.all([
+        publicClient.readContract({ address: strategy, abi: XStrategyABI, functionName: 'getPendingContributors' }),
+        publicClient.readContract({ address: strategy, abi: XStrategyABI, functionName: 'PENDING_CONTRIBUTION_TIMEOUT' }),
+        publicClient.getBlock()
+    ]);
+
+    const rows = await Promise.all(contributors.map(async contributor => {
+        const [amount, since] = await Promise.all([
+            publicClient.readContract({ address: strategy, abi: XStrategyABI, functionName: 'pendingContributions', args: [contributor] }),
+            publicClient.readContract({ address: strategy, abi: XStrategyABI, functionName: 'pendingTimestamp', args: [contributor] })
+        ]);
+        const jobs = listJobs(job => job.strategy.toLowerCase() === strategy.toLowerCase()
+            && job.contributor.toLowerCase() === contributor.toLowerCase());
+        return {
+            contributor,
+            amountEth: formatEther(amount),
+            ageMin: Math.floor(Number(block.timestamp - since) / 60),
+            refundable: block.timestamp >= since + timeout,
+            jobs: jobs.map(job => `${job.id} (${job.state})`).join(', ') || '-'
+        };
+    }));
+    if (rows.length === 0) console.log(`No pending contributions on ${strategy}`);
+    else console.table(rows);
+}
+
+function showStranded() {
+    const rows = listJobs(job => !!job.strandedTokens).map(job => ({
+        job: job.id,
+        strategy: job.strategy,
+        token: job.strandedTokens!.token,
+        amount: job.strandedTokens!.amount.toString(),
+        holder: job.strandedTokens!.holder
+    }));
+    if (rows.length === 0) console.log('No stranded tokens');
+    else console.table(rows);
+}
+
+/**
+ * Run one job to completion as a single swap. Waiting for batch-mates makes no
+ * sense here, so a batchable job skips batching and leaves an unswapped batch.
+ */
+async function forceProcess(jobId: string) {
+    const job = getJob(jobId);
+    if (!job) throw new Error(`Unknown job: ${jobId}`);
+    if (job.state === 'pending' && job.batchId) removeFromBatch(job.batchId, jobId);
+
+    if (job.state === 'failed') retryJob(jobId, { unbatched: true });
+    else await processJob(jobId, { unbatched: true });
+
+    // retryJob runs the job in the background
+    while (isInFlight(jobId)) await sleep(1_000);
+
+    const result = getJob(jobId)!;
+    console.log(`Job ${jobId}: ${result.state}${result.error ? ` (${result.error})` : ''}`);
+}
+
+async function withdraw(strategy?: `0x${string}`) {
+    const strategies = strategy ? [strategy] : await listStrategies();
+    for (const address of strategies) {
+        const amount = await withdrawBalance(address);
+        if (amount === 0n) console.log(`${address}: nothing withdrawn`);
+    }
+}
+
+async function main() {
+    const [command, ...args] = process.argv.slice(2);
+
+    switch (command) {
+        case 'strategies':
+            return showStrategies();
+        case 'pending':
+            return showPending(addressArg(args[0], 'strategy'));
+        case 'stranded':
+            return showStranded();
+        case 'process':
+            if (!args[0]) throw new Error(`Expected <jobId>\n\n${USAGE}`);
+            await assertServiceStopped();
+            await forceProcess(args[0]);
+            // Nothing the job started may keep the CLI alive once it settled
+            return process.exit();
+        case 'refund': {
+            const strategy = addressArg(args[0], 'strategy');
+            const contributor = addressArg(args[1], 'contributor');
+            await assertServiceStopped();
+            const hash = await refundContributor(strategy, contributor);
+            if (hash) console.log(`Refunded ${contributor} on ${strategy}: ${hash}`);
+            return;
+        }
+        case 'initiate-unwind':
+        case 'execute-unwind':
+        case 'distribute': {
+            const strategy = addressArg(args[0], 'strategy');
+            await assertServiceStopped();
+            const action = command === 'distribute' ? 'distribute' : command === 'initiate-unwind' ? 'initiateUnwind' : 'executeUnwind';
+            return performKeeperAction(strategy, action);
+        }
+        case 'withdraw': {
+            const strategy = args[0] ? addressArg(args[0], 'strategy') : undefined;
+            await assertServiceStopped();
+            return withdraw(strategy);
+        }
+        case 'cancel': {
+            const hash = args[0];
+            if (!hash || !/^0x[0-9a-fA-F]{64}$/.test(hash)) throw new Error(`Expected <txHash>, got ${hash ?? 'nothing'}\n\n${USAGE}`);
+            await assertServiceStopped();
+            const cancellation = await cancelTransaction(hash as `0x${string}`);
+            console.log(`Cancelling ${hash} with ${cancellation}`);
+            return;
+        }
+        default:
+            console.log(USAGE);
+            if (command && command !== 'help') process.exitCode = 1;
+    }
+}
+
+main().catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+});
@@ -0,0 +1,27 @@
+import dotenv from 'dotenv';
+import { loadChains, workerEnv } from './chains';
+
+dotenv.config();
+
+/**
+ * `--chain <name>` points the CLI at one supervisor worker: that chain's RPC,
+ * signer, data directory and admin port, exactly as the supervisor sets them.
+ * Imported before './config' so CONFIG is built from the worker's env.
+ */
+const flag = process.argv.indexOf('--chain');
+if (flag !== -1) {
+    const name = process.argv[flag + 1];
+    const chains = loadChains();
+    const index = chains.findIndex(chain => chain.name === name);
+    if (index === -1) {
+        console.error(`Unknown chain ${JSON.stringify(name ?? '')}; configured: ${chains.map(chain => chain.name).join(', ')}`);
+        process.exit(1);
+    }
+
+    const env = workerEnv(chains[index], index);
+    for (const key of Object.keys(process.env)) {
+        if (!(key in env)) delete process.env[key];
+    }
+    Object.assign(process.env, env);
+    process.argv.splice(flag, 2);
+}
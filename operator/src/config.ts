@@ -1,22 +1,121 @@
 import dotenv from 'dotenv';
 import { createPublicClient, createWalletClient, http } from 'viem';
-import { privateKeyToAccount } from 'viem/accounts';
-import { baseSepolia } from 'viem/chains';
+import { base, baseSepolia, foundry, zora, zoraSepolia, zoraTestnet } from 'viem/chains';
+import type { SwapProviderName } from './services/providers';
+import { ZERO_EX_V1_EXCHANGE_PROXY, ZERO_EX_V2_ALLOWANCE_HOLDER } from './services/providers/zeroEx';
+import { createOperatorAccount, SignerType } from './signer';
 
 dotenv.config();
 
-if (!process.env.PRIVATE_KEY) throw new Error('PRIVATE_KEY is required');
+// Chains the operator can service, matching the frontend's wagmi config, plus a local anvil (31337)
+export const SUPPORTED_CHAINS = { base, baseSepolia, zora, zoraSepolia, zoraTestnet, foundry };
+
+function resolveChain(id: number) {
+    const chain = Object.values(SUPPORTED_CHAINS).find(candidate => candidate.id === id);
+    if (!chain) throw new Error(`Unsupported CHAIN_ID ${id}`);
+    return chain;
+}
+
+const SIGNER = (process.env.SIGNER || 'local') as SignerType;
+
+if (SIGNER !== 'local' && SIGNER !== 'remote') throw new Error(`Unsupported SIGNER ${SIGNER}; expected local or remote`);
+
+if (SIGNER === 'local' && !process.env.PRIVATE_KEY) throw new Error('PRIVATE_KEY is required');
+if (SIGNER === 'remote' && (!process.env.SIGNER_URL || !process.env.SIGNER_ADDRESS)) {
+    throw new Error('SIGNER_URL and SIGNER_ADDRESS are required for SIGNER=remote');
+}
 if (!process.env.FACTORY_ADDRESS) throw new Error('FACTORY_ADDRESS is required');
 
 export const CONFIG = {
     RPC_URL: process.env.RPC_URL || 'https://sepolia.base.org',
     PRIVATE_KEY: process.env.PRIVATE_KEY as `0x${string}`,
+    SIGNER, // local: PRIVATE_KEY in-process | remote: external JSON-RPC signer
+    SIGNER_URL: process.env.SIGNER_URL,
+    SIGNER_ADDRESS: process.env.SIGNER_ADDRESS as `0x${string}` | undefined,
+    SIGNER_AUTH_TOKEN: process.env.SIGNER_AUTH_TOKEN,
+    SIGNER_MAX_TX_VALUE_WEI: process.env.SIGNER_MAX_TX_VALUE_WEI ? BigInt(process.env.SIGNER_MAX_TX_VALUE_WEI) : undefined,
+    SIGNER_DAILY_LIMIT_WEI: process.env.SIGNER_DAILY_LIMIT_WEI ? BigInt(process.env.SIGNER_DAILY_LIMIT_WEI) : undefined, // value + max gas
+    // Extra allowed destinations on top of the factory, configured routers, watched strategies and their tokens
+    SIGNER_ALLOWED_TO: (process.env.SIGNER_ALLOWED_TO || '').split(',').map(a => a.trim()).filter(Boolean) as `0x${string}`[],
     FACTORY_ADDRESS: process.env.FACTORY_ADDRESS as `0x${string}`,
     ZERO_EX_API_KEY: process.env.ZERO_EX_API_KEY,
-    CHAIN: baseSepolia // Default to Base Sepolia
+    // Quote sources compared on every swap; SWAP_PROVIDER is accepted for single-source setups
+    SWAP_PROVIDERS: (process.env.SWAP_PROVIDERS || process.env.SWAP_PROVIDER || '0x-v1')
+        .split(',')
+        .map(name => name.trim() as SwapProviderName),
+    DEFAULT_SLIPPAGE_BPS: Number(process.env.DEFAULT_SLIPPAGE_BPS || 500), // 5%, when a strategy sets no policy
+    STRATEGY_POLICY_PATH: process.env.STRATEGY_POLICY_PATH, // JSON registry of per-strategy slippage limits
+    UNISWAP_QUOTER: process.env.UNISWAP_QUOTER as `0x${string}` | undefined,
+    UNISWAP_ROUTER: process.env.UNISWAP_ROUTER as `0x${string}` | undefined,
+    UNISWAP_FEE_TIERS: (process.env.UNISWAP_FEE_TIERS || '500,3000,10000').split(',').map(Number),
+    WETH_ADDRESS: (process.env.WETH_ADDRESS || '0x4200000000000000000000000000000000000006') as `0x${string}`, // OP-stack predeploy
+    MOCK_AMM_ADDRESS: process.env.MOCK_AMM_ADDRESS as `0x${string}` | undefined,
+    DRY_RUN: process.env.DRY_RUN === 'true', // Quote and simulate only; never broadcast
+    DATA_DIR: process.env.DATA_DIR || './data', // Persisted job store lives here
+    // Backfill origin when no checkpoint exists yet; unset, each contract is scanned from its deployment block
+    START_BLOCK: process.env.START_BLOCK ? BigInt(process.env.START_BLOCK) : undefined,
+    CONFIRMATIONS: Number(process.env.CONFIRMATIONS || 5), // Blocks a contribution must be buried under before ETH is spent on it
+    LOG_CHUNK_SIZE: BigInt(process.env.LOG_CHUNK_SIZE || 2000), // Max block range per getLogs call
+    TX_STUCK_TIMEOUT_MS: Number(process.env.TX_STUCK_TIMEOUT_MS || 120_000), // Unmined this long => bump gas
+    TX_GAS_BUMP_PERCENT: Number(process.env.TX_GAS_BUMP_PERCENT || 25), // Nodes require >= 10% to replace
+    TX_MAX_GAS_BUMPS: Number(process.env.TX_MAX_GAS_BUMPS || 5),
+    TX_POLL_INTERVAL_MS: Number(process.env.TX_POLL_INTERVAL_MS || 4_000),
+    KEEPER_INTERVAL_MS: Number(process.env.KEEPER_INTERVAL_MS || 300_000), // Unwind/distribute scan cadence
+    SWEEP_INTERVAL_MS: Number(process.env.SWEEP_INTERVAL_MS || 300_000), // Timed-out refund scan cadence
+    RECONCILE_INTERVAL_MS: Number(process.env.RECONCILE_INTERVAL_MS || 3_600_000), // operatorBalances check + withdraw cadence
+    RECONCILE_MIN_WITHDRAW_WEI: BigInt(process.env.RECONCILE_MIN_WITHDRAW_WEI || '10000000000000000'), // 0.01 ETH; not worth the gas below
+    ALERT_WEBHOOK_URLS: (process.env.ALERT_WEBHOOK_URLS || '').split(',').map(url => url.trim()).filter(Boolean), // Slack/Discord/generic JSON
+    ALERT_DEDUP_WINDOW_MS: Number(process.env.ALERT_DEDUP_WINDOW_MS || 3_600_000), // Same alert key is sent at most once per window
+    ALERT_RATE_LIMIT_PER_MIN: Number(process.env.ALERT_RATE_LIMIT_PER_MIN || 10),
+    ALERT_CHECK_INTERVAL_MS: Number(process.env.ALERT_CHECK_INTERVAL_MS || 60_000),
+    ALERT_LOW_BALANCE_WEI: BigInt(process.env.ALERT_LOW_BALANCE_WEI || '50000000000000000'), // 0.05 ETH
+    ALERT_STUCK_JOB_MS: Number(process.env.ALERT_STUCK_JOB_MS || 900_000), // Non-terminal and untouched this long
+    ADMIN_PORT: Number(process.env.ADMIN_PORT || 8787),
+    ADMIN_TOKEN: process.env.ADMIN_TOKEN, // Bearer token for /jobs admin endpoints; unset disables them
+    TWAP_IMPACT_THRESHOLD_BPS: Number(process.env.TWAP_IMPACT_THRESHOLD_BPS || 100), // Split swaps that would move the pool more
+    TWAP_MAX_SLICES: Number(process.env.TWAP_MAX_SLICES || 5), // 1 disables splitting
+    TWAP_SLICE_INTERVAL_MS: Number(process.env.TWAP_SLICE_INTERVAL_MS || 120_000), // Keep slices x interval well under the 1h pending timeout
+    TWAP_MIN_ETH_WEI: BigInt(process.env.TWAP_MIN_ETH_WEI || '50000000000000000'), // 0.05 ETH; smaller swaps are never split
+    BATCH_WINDOW_MS: Number(process.env.BATCH_WINDOW_MS || 30_000), // Collect small contributions this long; 0 disables batching
+    BATCH_MAX_ETH_WEI: BigInt(process.env.BATCH_MAX_ETH_WEI || '10000000000000000'), // 0.01 ETH; larger ones swap alone
+    BATCH_MAX_SIZE: Number(process.env.BATCH_MAX_SIZE || 20), // Execute early once this many have joined
+    QUOTE_TTL_MS: Number(process.env.QUOTE_TTL_MS || 60_000), // Re-quote unsent swaps older than this
+    CHAIN: resolveChain(Number(process.env.CHAIN_ID || baseSepolia.id)), // Default to Base Sepolia
+    CHAIN_NAME: process.env.CHAIN_NAME // Set by the multi-chain supervisor for each worker
+};
+
+/**
+ * Destinations the operator may ever sign for, besides strategies and tokens
+ * registered at runtime through `allowDestination`.
+ */
+function staticDestinations(): `0x${string}`[] {
+    const destinations: (`0x${string}` | undefined)[] = [
+        CONFIG.FACTORY_ADDRESS,
+        CONFIG.UNISWAP_ROUTER,
+        CONFIG.MOCK_AMM_ADDRESS,
+        ...CONFIG.SIGNER_ALLOWED_TO
+    ];
+    if (CONFIG.SWAP_PROVIDERS.includes('0x-v1')) destinations.push(ZERO_EX_V1_EXCHANGE_PROXY);
+    if (CONFIG.SWAP_PROVIDERS.includes('0x-v2')) destinations.push(ZERO_EX_V2_ALLOWANCE_HOLDER);
+    return destinations.filter((address): address is `0x${string}` => !!address);
+}
+
+const policy = {
+    maxTxValue: CONFIG.SIGNER_MAX_TX_VALUE_WEI,
+    dailyLimit: CONFIG.SIGNER_DAILY_LIMIT_WEI,
+    allowedTo: staticDestinations(),
+    dataDir: CONFIG.DATA_DIR
 };
 
-export const account = privateKeyToAccount(CONFIG.PRIVATE_KEY);
+export const account = CONFIG.SIGNER === 'remote'
+    ? createOperatorAccount({
+        type: 'remote',
+        url: CONFIG.SIGNER_URL!,
+        address: CONFIG.SIGNER_ADDRESS!,
+        authToken: CONFIG.SIGNER_AUTH_TOKEN,
+        policy
+    })
+    : createOperatorAccount({ type: 'local', privateKey: CONFIG.PRIVATE_KEY, policy });
 
 export const publicClient = createPublicClient({
     chain: CONFIG.CHAIN,
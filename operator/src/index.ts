@@ -1,76 +1,76 @@
-import { publicClient, CONFIG } from './config';
-import { XStrategyFactoryABI, XStrategyABI } from './abis';
-import { processContribution } from './services/chainService';
-
-// Add getAllStrategies to a local ABI fragment for reading
-const FactoryReadABI = [
-    {
-        inputs: [],
-        name: "getAllStrategies",
-        outputs: [{ name: "", type: "address[]" }],
-        stateMutability: "view",
-        type: "function",
-    }
-] as const;
+import { publicClient, account, CONFIG } from './config';
+import { XStrategyFactoryABI } from './abis';
+import { processJob } from './services/chainService';
+import { backfill } from './services/backfillService';
+import { watchFactory, watchPauses, watchStrategy } from './services/watcherService';
+import { startKeeper } from './services/keeperService';
+import { startSweeper } from './services/sweeperService';
+import { startReconciler } from './services/reconciliationService';
+import { startAlertMonitor } from './services/alertMonitor';
+import { resumeBatches } from './services/batchService';
+import { assertSimulationSupported } from './services/simulationService';
+import { startApiServer } from './api/server';
+import { getResumableJobs } from './store/jobStore';
+import { assertRemoteSigner } from './signer';
 
 async function main() {
-    console.log(`Starting Operator Service on Chain ID: ${CONFIG.CHAIN.id}`);
-    console.log(`Operator Address: ${CONFIG.PRIVATE_KEY ? 'Loaded' : 'Missing'}`); // Don't log key
+    console.log(`Starting Operator Service on ${CONFIG.CHAIN_NAME ?? CONFIG.CHAIN.name} (Chain ID: ${CONFIG.CHAIN.id})`);
+    console.log(`Operator Address: ${account.address} (${CONFIG.SIGNER} signer)`);
     console.log(`Factory: ${CONFIG.FACTORY_ADDRESS}`);
+    if (CONFIG.DRY_RUN) console.log('DRY RUN: transactions are simulated, never broadcast');
+
+    if (CONFIG.SIGNER === 'remote') {
+        await assertRemoteSigner(CONFIG.SIGNER_URL!, account.address, CONFIG.SIGNER_AUTH_TOKEN);
+    }
+    if (CONFIG.DRY_RUN) await assertSimulationSupported();
+
+    startApiServer();
+
+    // 0. Resume jobs interrupted by a previous shutdown
+    const resumable = getResumableJobs();
+    if (resumable.length > 0) {
+        console.log(`Resuming ${resumable.length} unfinished jobs.`);
+        resumable.forEach(job => processJob(job.id));
+    }
+    resumeBatches();
 
     // 1. Load Existing Strategies
+    let strategies: `0x${string}`[] = [];
     try {
-        const strategies = await publicClient.readContract({
+        strategies = await publicClient.readContract({
             address: CONFIG.FACTORY_ADDRESS,
-            abi: FactoryReadABI,
+            abi: XStrategyFactoryABI,
             functionName: 'getAllStrategies'
         }) as `0x${string}`[];
 
         console.log(`Found ${strategies.length} existing strategies.`);
-        strategies.forEach(watchStrategy);
     } catch (e) {
         console.warn("Failed to fetch existing strategies (Factory might be empty or invalid address):", e);
     }
 
-    // 2. Watch for NEW strategies
-    publicClient.watchContractEvent({
-        address: CONFIG.FACTORY_ADDRESS,
-        abi: XStrategyFactoryABI,
-        eventName: 'StrategyCreated',
-        onLogs: logs => {
-            logs.forEach(log => {
-                const strategy = log.args.strategy;
-                if (strategy) {
-                    console.log(`New Strategy Detected: ${strategy}`);
-                    watchStrategy(strategy);
-                }
-            });
-        }
-    });
-}
+    // 2. Backfill events missed while offline, then watch live from the next block
+    const head = await publicClient.getBlockNumber();
+    strategies = await backfill(strategies, head);
+    strategies.forEach(strategy => watchStrategy(strategy, head + 1n));
 
-const activeWatchers = new Set<string>();
+    // 3. Watch for NEW strategies, and pauses of existing ones
+    watchFactory(head + 1n);
+    watchPauses(head + 1n);
 
-function watchStrategy(address: `0x${string}`) {
-    if (activeWatchers.has(address)) return;
-    activeWatchers.add(address);
+    // 4. Drive expired strategies through unwind and distribution
+    startKeeper();
 
-    console.log(`Watching strategy: ${address}`);
+    // 5. Refund contributions we could not fill once they time out
+    startSweeper();
 
-    publicClient.watchContractEvent({
-        address,
-        abi: XStrategyABI,
-        eventName: 'ContributionPending',
-        onLogs: logs => {
-            logs.forEach(log => {
-                const { contributor, amount } = log.args;
-                if (contributor && amount) {
-                    console.log(`Event: ContributionPending on ${address}`);
-                    processContribution(address, contributor, amount);
-                }
-            });
-        }
-    });
+    // 6. Withdraw the ETH strategies credit back for confirmed swaps, flagging mismatches
+    startReconciler();
+
+    // 7. Alert on low balance and stuck work
+    startAlertMonitor();
 }
 
+// Under the multi-chain supervisor, don't outlive it
+if (process.send) process.on('disconnect', () => process.exit(0));
+
 main().catch(console.error);
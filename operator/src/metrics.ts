@@ -0,0 +1,80 @@
+import { formatEther } from 'viem';
+import { publicClient, account } from './config';
+import { JOB_STATES, listJobs } from './store/jobStore';
+import { listLedgers } from './store/ledgerStore';
+
+/**
+ * Cumulative Prometheus histogram.
+ */
+class Histogram {
+    private counts: number[];
+    private sum = 0;
+    private count = 0;
+
+    constructor(readonly name: string, readonly help: string, private readonly buckets: number[]) {
+        this.counts = buckets.map(() => 0);
+    }
+
+    observe(value: number) {
+        this.buckets.forEach((bound, i) => {
+            if (value <= bound) this.counts[i]++;
+        });
+        this.sum += value;
+        this.count++;
+    }
+
+    render(): string[] {
+        return [
+            `# HELP ${this.name} ${this.help}`,
+            `# TYPE ${this.name} histogram`,
+            ...this.buckets.map((bound, i) => `${this.name}_bucket{le="${bound}"} ${this.counts[i]}`),
+            `${this.name}_bucket{le="+Inf"} ${this.count}`,
+            `${this.name}_sum ${this.sum}`,
+            `${this.name}_count ${this.count}`
+        ];
+    }
+}
+
+export const swapLatency = new Histogram(
+    'xstrat_swap_latency_seconds',
+    'Time from swap broadcast to receipt',
+    [5, 15, 30, 60, 120, 300, 600]
+);
+
+export const realizedSlippage = new Histogram(
+    'xstrat_slippage_realized_bps',
+    'Shortfall of tokens received versus the quoted buyAmount, in bps',
+    [0, 10, 25, 50, 100, 250, 500, 1000]
+);
+
+/**
+ * Realized slippage of a fill in bps; 0 when the fill met or beat the quote.
+ */
+export function slippageBps(quoted: bigint, received: bigint): number {
+    if (quoted === 0n || received >= quoted) return 0;
+    return Number(((quoted - received) * 10000n) / quoted);
+}
+
+/**
+ * Full scrape in Prometheus text exposition format. Job counts and the wallet
+ * balance are read at scrape time rather than tracked incrementally.
+ */
+export async function renderMetrics(): Promise<string> {
+    const jobs = listJobs();
+    const balance = await publicClient.getBalance({ address: account.address });
+
+    const lines = [
+        '# HELP xstrat_jobs Contribution jobs by state',
+        '# TYPE xstrat_jobs gauge',
+        ...JOB_STATES.map(state => `xstrat_jobs{state="${state}"} ${jobs.filter(job => job.state === state).length}`),
+        '# HELP xstrat_wallet_balance_eth Operator wallet ETH balance',
+        '# TYPE xstrat_wallet_balance_eth gauge',
+        `xstrat_wallet_balance_eth ${formatEther(balance)}`,
+        '# HELP xstrat_operator_balance_discrepancy_eth On-chain operatorBalances minus what the operator expects, per strategy',
+        '# TYPE xstrat_operator_balance_discrepancy_eth gauge',
+        ...listLedgers().map(ledger => `xstrat_operator_balance_discrepancy_eth{strategy="${ledger.strategy}"} ${formatEther(ledger.discrepancy ?? 0n)}`),
+        ...swapLatency.render(),
+        ...realizedSlippage.render()
+    ];
+    return lines.join('\n') + '\n';
+}
@@ -0,0 +1,59 @@
+import { formatEther } from 'viem';
+import { publicClient, account, CONFIG } from '../config';
+import { raiseAlert } from './alerts';
+import { listJobs, isTerminal } from '../store/jobStore';
+import { listBatches, isBatchTerminal } from '../store/batchStore';
+import { failedAfterSwap } from './sweeperService';
+
+/**
+ * Periodic checks for conditions no single code path notices: a draining
+ * wallet and work that has stopped moving.
+ */
+export function startAlertMonitor() {
+    const tick = () => runAlertChecks().catch(error => console.error('Alert checks failed:', error));
+    tick();
+    setInterval(tick, CONFIG.ALERT_CHECK_INTERVAL_MS);
+}
+
+export async function runAlertChecks() {
+    const balance = await publicClient.getBalance({ address: account.address });
+    if (balance < CONFIG.ALERT_LOW_BALANCE_WEI) {
+        raiseAlert({
+            key: 'low-balance',
+            severity: 'critical',
+            title: 'Operator wallet balance low',
+            message: `${formatEther(balance)} ETH left, below ${formatEther(CONFIG.ALERT_LOW_BALANCE_WEI)} ETH. Swaps and gas will start failing.`,
+            fields: { address: account.address }
+        });
+    }
+
+    const cutoff = Date.now() - CONFIG.ALERT_STUCK_JOB_MS;
+    for (const job of listJobs(job => !isTerminal(job.state) && job.updatedAt < cutoff)) {
+        raiseAlert({
+            key: `stuck-job:${job.id}`,
+            severity: 'warning',
+            title: 'Job stuck',
+            message: `Job has been ${job.state} for ${Math.round((Date.now() - job.updatedAt) / 60_000)} min`,
+            fields: { job: job.id, strategy: job.strategy, contributor: job.contributor, ...(job.batchId && { batch: job.batchId }) }
+        });
+    }
+    // Terminal, so never "stuck", but the tokens bought for them wait on an admin
+    for (const job of listJobs(failedAfterSwap)) {
+        raiseAlert({
+            key: `failed-after-swap:${job.id}`,
+            severity: 'critical',
+            title: 'Job failed after swapping',
+            message: `Job failed at ${job.failedAt} holding swapped tokens; retry or abandon it: ${job.error}`,
+            fields: { job: job.id, strategy: job.strategy, contributor: job.contributor, ...(job.batchId && { batch: job.batchId }) }
+        });
+    }
+    for (const batch of listBatches(batch => !isBatchTerminal(batch.state) && batch.updatedAt < cutoff)) {
+        raiseAlert({
+            key: `stuck-batch:${batch.id}`,
+            severity: 'warning',
+            title: 'Batch stuck',
+            message: `Batch of ${batch.jobIds.length} has been ${batch.state} for ${Math.round((Date.now() - batch.updatedAt) / 60_000)} min`,
+            fields: { batch: batch.id, strategy: batch.strategy }
+        });
+    }
+}
@@ -0,0 +1,57 @@
+import { CONFIG } from '../../config';
+import { Alert, AlertSink } from './types';
+import { createWebhookSink } from './webhook';
+
+export * from './types';
+
+const sinks: AlertSink[] = CONFIG.ALERT_WEBHOOK_URLS.map(createWebhookSink);
+
+// Last delivery per alert key, and how many repeats were swallowed since
+const recent = new Map<string, { sentAt: number; suppressed: number }>();
+let sentInLastMinute: number[] = [];
+
+/**
+ * Add a destination beyond the configured webhooks (e.g. PagerDuty, email).
+ */
+export function registerAlertSink(sink: AlertSink) {
+    sinks.push(sink);
+}
+
+/**
+ * Log an alert and deliver it to every sink, at most once per key per
+ * ALERT_DEDUP_WINDOW_MS and at most ALERT_RATE_LIMIT_PER_MIN overall.
+ * Never throws; alerting must not break the code path that raised it.
+ */
+export function raiseAlert(alert: Alert) {
+    const log = alert.severity === 'info' ? console.log : console.warn;
+    log(`ALERT [${alert.severity}] ${alert.title}: ${alert.message}`);
+    if (sinks.length === 0) return;
+
+    const now = Date.now();
+    const previous = recent.get(alert.key);
+    if (previous && now - previous.sentAt < CONFIG.ALERT_DEDUP_WINDOW_MS) {
+        previous.suppressed++;
+        return;
+    }
+
+    sentInLastMinute = sentInLastMinute.filter(at => now - at < 60_000);
+    if (sentInLastMinute.length >= CONFIG.ALERT_RATE_LIMIT_PER_MIN) {
+        // Dropped, not deduplicated: the next occurrence of this key may go through
+        console.warn(`Alert rate limit reached; dropping ${alert.key}`);
+        return;
+    }
+    sentInLastMinute.push(now);
+    recent.set(alert.key, { sentAt: now, suppressed: 0 });
+
+    const payload = {
+        ...alert,
+        chain: CONFIG.CHAIN_NAME ?? CONFIG.CHAIN.name,
+        at: now,
+        suppressed: previous?.suppressed ?? 0
+    };
+    for (const sink of sinks) {
+        sink.send(payload).catch(error =>
+            console.error(`Alert sink ${sink.name} failed:`, error instanceof Error ? error.message : error)
+        );
+    }
+}
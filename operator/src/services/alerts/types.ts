@@ -0,0 +1,14 @@
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export interface Alert {
+    key: string; // Identifies the condition, e.g. `stuck-job:<id>`; repeats within the dedup window are suppressed
+    severity: AlertSeverity;
+    title: string;
+    message: string;
+    fields?: Record<string, string | number>;
+}
+
+export interface AlertSink {
+    name: string;
+    send(alert: Alert & { chain: string; at: number; suppressed: number }): Promise<void>;
+}
@@ -0,0 +1,34 @@
+import { AlertSink } from './types';
+
+const SEVERITY_ICONS = { info: 'ℹ️', warning: '⚠️', critical: '🚨' };
+
+// Discord rejects content over 2000 characters
+const MAX_TEXT_LENGTH = 1900;
+
+/**
+ * Generic JSON webhook. The payload carries the alert as structured JSON plus
+ * `text` (Slack incoming webhooks) and `content` (Discord webhooks), so the
+ * same URL format works for either without per-service configuration.
+ */
+export function createWebhookSink(url: string): AlertSink {
+    return {
+        name: `webhook:${new URL(url).host}`,
+        async send(alert) {
+            const details = Object.entries(alert.fields ?? {}).map(([name, value]) => `• ${name}: ${value}`);
+            const suppressed = alert.suppressed > 0 ? [`(${alert.suppressed} similar alerts suppressed)`] : [];
+            const text = [
+                `${SEVERITY_ICONS[alert.severity]} [${alert.chain}] ${alert.title}`,
+                alert.message,
+                ...details,
+                ...suppressed
+            ].join('\n').slice(0, MAX_TEXT_LENGTH);
+
+            const response = await fetch(url, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ text, content: text, alert })
+            });
+            if (!response.ok) throw new Error(`Webhook responded ${response.status} ${response.statusText}`);
+        }
+    };
+}
@@ -0,0 +1,108 @@
+import { publicClient, CONFIG } from '../config';
+import { XStrategyFactoryABI, XStrategyABI } from '../abis';
+import { onContributionPending } from './eventService';
+import { getCheckpoint, advanceCheckpoint } from '../store/checkpointStore';
+
+/**
+ * Replay events emitted while the operator was offline.
+ * Scans the factory for StrategyCreated and every known strategy for
+ * ContributionPending from its last checkpoint (or, on first run, its
+ * deployment block) up to `toBlock`.
+ * Ranges are rescanned inclusively, reaching CONFIRMATIONS blocks behind each
+ * checkpoint in case a reorg moved logs there; job ids make replays idempotent.
+ * @returns All strategies known after the scan, including newly discovered ones
+ */
+export async function backfill(
+    knownStrategies: `0x${string}`[],
+    toBlock: bigint
+): Promise<`0x${string}`[]> {
+    const strategies = new Map(knownStrategies.map(s => [s.toLowerCase(), s]));
+    const createdAt = new Map<string, bigint>();
+
+    // 1. Discover strategies created while offline
+    const factoryFrom = getCheckpoint(CONFIG.FACTORY_ADDRESS) ?? await originOf(CONFIG.FACTORY_ADDRESS, toBlock);
+    await scanInChunks(factoryFrom, toBlock, async (fromBlock, chunkEnd) => {
+        const logs = await publicClient.getContractEvents({
+            address: CONFIG.FACTORY_ADDRESS,
+            abi: XStrategyFactoryABI,
+            eventName: 'StrategyCreated',
+            fromBlock,
+            toBlock: chunkEnd
+        });
+        for (const log of logs) {
+            const strategy = log.args.strategy;
+            if (!strategy) continue;
+            strategies.set(strategy.toLowerCase(), strategy);
+            createdAt.set(strategy.toLowerCase(), log.blockNumber);
+        }
+        advanceCheckpoint(CONFIG.FACTORY_ADDRESS, chunkEnd);
+    });
+
+    // 2. Replay pending contributions per strategy
+    for (const strategy of strategies.values()) {
+        const checkpoint = getCheckpoint(strategy);
+        const from = (checkpoint !== undefined ? rewind(checkpoint) : undefined)
+            ?? createdAt.get(strategy.toLowerCase())
+            ?? await originOf(strategy, toBlock);
+
+        await scanInChunks(from, toBlock, async (fromBlock, chunkEnd) => {
+            const logs = await publicClient.getContractEvents({
+                address: strategy,
+                abi: XStrategyABI,
+                eventName: 'ContributionPending',
+                fromBlock,
+                toBlock: chunkEnd
+            });
+            for (const log of logs) {
+                await onContributionPending(strategy, log, { historical: true });
+            }
+            advanceCheckpoint(strategy, chunkEnd);
+        });
+    }
+
+    console.log(`Backfill complete up to block ${toBlock} across ${strategies.size} strategies.`);
+    return [...strategies.values()];
+}
+
+/**
+ * Where to start scanning a contract that has no checkpoint yet: START_BLOCK if
+ * set, otherwise the block it was deployed in.
+ */
+async function originOf(address: `0x${string}`, head: bigint): Promise<bigint> {
+    if (CONFIG.START_BLOCK !== undefined) return CONFIG.START_BLOCK;
+    const block = await deploymentBlock(address, head);
+    console.log(`No checkpoint for ${address}; scanning from its deployment block ${block}`);
+    return block;
+}
+
+/**
+ * First block at which `address` has code, found by bisecting eth_getCode.
+ * Needs historical state; set START_BLOCK on nodes that prune it.
+ */
+export async function deploymentBlock(address: `0x${string}`, head: bigint): Promise<bigint> {
+    let low = 0n;
+    let high = head;
+    while (low < high) {
+        const mid = (low + high) / 2n;
+        const code = await publicClient.getCode({ address, blockNumber: mid });
+        if (code && code !== '0x') high = mid;
+        else low = mid + 1n;
+    }
+    return low;
+}
+
+function rewind(block: bigint): bigint {
+    const depth = BigInt(CONFIG.CONFIRMATIONS);
+    return block > depth ? block - depth : 0n;
+}
+
+async function scanInChunks(
+    from: bigint,
+    to: bigint,
+    scan: (fromBlock: bigint, toBlock: bigint) => Promise<void>
+) {
+    for (let start = from; start <= to; start += CONFIG.LOG_CHUNK_SIZE) {
+        const end = start + CONFIG.LOG_CHUNK_SIZE - 1n < to ? start + CONFIG.LOG_CHUNK_SIZE - 1n : to;
+        await scan(start, end);
+    }
+}
@@ -0,0 +1,341 @@
+import { encodeFunctionData } from 'viem';
+import { CONFIG } from '../config';
+import { XStrategyABI, ERC20ABI } from '../abis';
+import { buildQuote, processJob, recordFill, sendTracked, tokensReceivedFrom } from './chainService';
+import { UnfillableError } from './swapService';
+import { sendTransaction } from './txManager';
+import { allowDestination } from '../signer';
+import { Job, getJob, updateJob } from '../store/jobStore';
+import {
+    Batch,
+    BatchAllocation,
+    createBatch,
+    getBatch,
+    getOpenBatch,
+    updateBatch,
+    listBatches,
+    isBatchTerminal
+} from '../store/batchStore';
+
+type BatchHashField = 'swapHash' | 'approveHash' | 'depositHash';
+
+const inFlight = new Set<string>();
+
+/**
+ * Small contributions share one swap, approve and deposit instead of paying for their own.
+ */
+export function isBatchable(job: Job) {
+    return CONFIG.BATCH_WINDOW_MS > 0 && job.ethAmount <= CONFIG.BATCH_MAX_ETH_WEI;
+}
+
+/**
+ * Add a pending job to its strategy's open batch, opening one if needed.
+ * The batch executes when its window closes or it reaches BATCH_MAX_SIZE.
+ */
+export function addToBatch(job: Job) {
+    let batch = getOpenBatch(job.strategy);
+    if (!batch) {
+        batch = createBatch(job.strategy, Date.now() + CONFIG.BATCH_WINDOW_MS);
+        console.log(`Opened batch ${batch.id}, closing in ${CONFIG.BATCH_WINDOW_MS / 1000}s`);
+        setTimeout(() => processBatch(batch!.id), CONFIG.BATCH_WINDOW_MS);
+    }
+
+    batch = updateBatch(batch.id, {
+        jobIds: [...batch.jobIds, job.id],
+        ethAmount: batch.ethAmount + job.ethAmount
+    });
+    updateJob(job.id, { batchId: batch.id });
+    console.log(`Job ${job.id} joined batch ${batch.id} (${batch.jobIds.length} members, ${batch.ethAmount} wei)`);
+
+    if (batch.jobIds.length >= CONFIG.BATCH_MAX_SIZE) processBatch(batch.id);
+}
+
+/**
+ * Take a member out of a batch that has not swapped yet, e.g. because its
+ * contribution was reorged out. A quote for the old total is dropped so the
+ * batch re-quotes; a batch left empty is dissolved.
+ */
+export function removeFromBatch(batchId: string, jobId: string): Batch {
+    const batch = getBatch(batchId);
+    if (!batch) throw new Error(`Unknown batch: ${batchId}`);
+    if (batch.swapHash) throw new Error(`Batch ${batchId} already swapped; its members can no longer leave`);
+
+    const job = getJob(jobId);
+    const jobIds = batch.jobIds.filter(id => id !== jobId);
+    if (!job || jobIds.length === batch.jobIds.length) return batch;
+
+    updateJob(jobId, { batchId: undefined });
+    console.log(`Job ${jobId} left batch ${batchId} (${jobIds.length} members remain)`);
+    return updateBatch(batchId, {
+        jobIds,
+        ethAmount: batch.ethAmount - job.ethAmount,
+        ...(jobIds.length === 0 && { state: 'dissolved' }),
+        ...(jobIds.length > 0 && batch.state === 'quoted' && { state: 'closed', quote: undefined })
+    });
+}
+
+/**
+ * Pick up batches interrupted by a restart, including open ones whose window
+ * elapsed while the operator was down.
+ */
+export function resumeBatches() {
+    for (const batch of listBatches(batch => !isBatchTerminal(batch.state))) {
+        const wait = Math.max(0, batch.closesAt - Date.now());
+        setTimeout(() => processBatch(batch.id), wait);
+    }
+}
+
+/**
+ * Drive a batch through quote -> swap -> approve -> deposit, then split the
+ * tokens pro-rata and confirm each member as an ordinary job.
+ */
+export async function processBatch(batchId: string) {
+    if (inFlight.has(batchId)) return;
+    inFlight.add(batchId);
+
+    let batch = getBatch(batchId);
+    try {
+        if (!batch || isBatchTerminal(batch.state)) return;
+
+        if (batch.state === 'open') {
+            // A lone member gains nothing from batching
+            if (batch.jobIds.length === 1) {
+                updateJob(batch.jobIds[0], { batchId: undefined });
+                updateBatch(batch.id, { state: 'dissolved' });
+                processJob(batch.jobIds[0], { unbatched: true });
+                return;
+            }
+            batch = updateBatch(batch.id, { state: 'closed' });
+            console.log(`Executing batch ${batch.id}: ${batch.jobIds.length} contributions, ${batch.ethAmount} wei`);
+        }
+
+        while (batch.state !== 'allocated') {
+            batch = await advance(batch);
+            // Every member left while it ran
+            if (batch.state === 'dissolved') return;
+        }
+    } catch (error) {
+        console.error(`Error processing batch ${batchId}:`, error);
+        if (batch) failBatch(batch, error);
+        return;
+    } finally {
+        inFlight.delete(batchId);
+    }
+
+    // Each member now confirms on its own, with its own retry path
+    for (const jobId of batch.jobIds) {
+        await processJob(jobId);
+    }
+}
+
+/**
+ * Put a failed batch back into the state it failed in, with its members, and run it again.
+ */
+export function retryBatch(batchId: string): Batch {
+    const batch = getBatch(batchId);
+    if (!batch) throw new Error(`Unknown batch: ${batchId}`);
+    if (batch.state !== 'failed') throw new Error(`Batch ${batchId} is ${batch.state}, only failed batches can be retried`);
+
+    const settled = members(batch).filter(job => job.state !== 'failed');
+    if (settled.length > 0) throw new Error(`Batch ${batchId} members moved on: ${settled.map(job => `${job.id} (${job.state})`).join(', ')}`);
+
+    for (const jobId of batch.jobIds) {
+        updateJob(jobId, { state: 'pending', batchId, failedAt: undefined, error: undefined, unfillable: undefined });
+    }
+    const retried = updateBatch(batchId, { state: batch.failedAt ?? 'closed', failedAt: undefined, error: undefined });
+    processBatch(batchId);
+    return retried;
+}
+
+function failBatch(batch: Batch, error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    updateBatch(batch.id, { state: 'failed', failedAt: batch.state, error: message });
+
+    // Members fail with the batch. Unswapped ones are left to the pending-timeout
+    // refund; swapped ones stay tied to the batch so retryBatch can finish them.
+    const swapped = !!batch.swapHash;
+    for (const jobId of batch.jobIds) {
+        updateJob(jobId, {
+            state: 'failed',
+            failedAt: 'pending',
+            error: `Batch ${batch.id} failed: ${message}`,
+            unfillable: error instanceof UnfillableError ? error.reason : undefined,
+            batchId: swapped ? batch.id : undefined
+        });
+    }
+}
+
+function members(batch: Batch): Job[] {
+    return batch.jobIds.map(id => {
+        const job = getJob(id);
+        if (!job) throw new Error(`Batch ${batch.id} references unknown job ${id}`);
+        return job;
+    });
+}
+
+async function advance(batch: Batch): Promise<Batch> {
+    allowDestination(batch.strategy);
+    if (batch.token) allowDestination(batch.token);
+
+    switch (batch.state) {
+        case 'closed':
+            return quoteBatch(batch);
+        case 'quoted':
+            return swapBatch(batch);
+        case 'swapped':
+            return approveBatch(batch);
+        case 'approved':
+            return depositBatch(batch);
+        case 'deposited':
+            return allocateBatch(batch);
+        default:
+            throw new Error(`Cannot advance batch in state ${batch.state}`);
+    }
+}
+
+async function quoteBatch(batch: Batch): Promise<Batch> {
+    // Any member carries the strategy; the quote is for the batch total
+    const [first] = members(batch);
+    const { token, quote } = await buildQuote(first, batch.ethAmount);
+
+    // Members that left while quoting make it a quote for the wrong total; the loop quotes again
+    const current = getBatch(batch.id)!;
+    if (current.state !== batch.state || current.ethAmount !== batch.ethAmount) return current;
+
+    // A share that rounds to 0 at the quote's minimum could never be confirmed; take it out before
+    // any ETH is swapped, leaving it to the timeout refund, and quote the smaller total again
+    const excluded = zeroShareMembers(quote.minExpected, members(current));
+    if (excluded.length > 0) {
+        for (const job of excluded) {
+            removeFromBatch(batch.id, job.id);
+            updateJob(job.id, {
+                state: 'failed',
+                failedAt: 'pending',
+                error: `Share of batch ${batch.id} rounds to 0 tokens`,
+                unfillable: 'dust'
+            });
+        }
+        console.log(`Batch ${batch.id} excluded ${excluded.length} contributions with a zero share`);
+        return getBatch(batch.id)!;
+    }
+
+    return updateBatch(batch.id, { state: 'quoted', token, quote });
+}
+
+async function swapBatch(batch: Batch): Promise<Batch> {
+    // A member may have left since the quote, taking its ETH out of the total
+    const current = getBatch(batch.id)!;
+    if (current.state !== 'quoted') return current;
+    batch = current;
+
+    if (!batch.swapHash && Date.now() - batch.quote!.quotedAt > CONFIG.QUOTE_TTL_MS) {
+        console.log(`Quote for batch ${batch.id} expired, re-quoting`);
+        return quoteBatch(batch);
+    }
+
+    const startedAt = Date.now();
+    const receipt = await sendBatchStep(batch, 'swapHash', () => sendTransaction({
+        to: batch.quote!.to,
+        data: batch.quote!.data,
+        value: batch.quote!.value
+    }));
+
+    const tokensReceived = tokensReceivedFrom(receipt, batch.token!);
+    if (tokensReceived <= 0n) throw new Error('Batch swap yielded 0 tokens');
+
+    recordFill(`Batch ${batch.id}`, batch.strategy, batch.quote!, tokensReceived, startedAt);
+
+    return updateBatch(batch.id, { state: 'swapped', tokensReceived });
+}
+
+async function approveBatch(batch: Batch): Promise<Batch> {
+    await sendBatchStep(batch, 'approveHash', () => sendTransaction({
+        to: batch.token!,
+        data: encodeFunctionData({ abi: ERC20ABI, functionName: 'approve', args: [batch.strategy, batch.tokensReceived!] })
+    }));
+    return updateBatch(batch.id, { state: 'approved' });
+}
+
+async function depositBatch(batch: Batch): Promise<Batch> {
+    await sendBatchStep(batch, 'depositHash', () => sendTransaction({
+        to: batch.strategy,
+        data: encodeFunctionData({ abi: XStrategyABI, functionName: 'receiveTokens', args: [batch.tokensReceived!] })
+    }));
+    return updateBatch(batch.id, { state: 'deposited' });
+}
+
+/**
+ * Split the batch's tokens pro-rata to ETH and hand each member to the job
+ * pipeline at 'deposited', so its confirmSwap runs like any other job's.
+ */
+async function allocateBatch(batch: Batch): Promise<Batch> {
+    const allocations = allocate(batch, members(batch));
+
+    for (const allocation of allocations) {
+        // An orphaned member's share was deposited with the rest but has nothing left to confirm
+        if (getJob(allocation.jobId)?.state === 'orphaned') {
+            updateJob(allocation.jobId, {
+                allocation,
+                strandedTokens: { token: batch.token!, amount: allocation.tokens, holder: 'strategy' }
+            });
+            console.log(`Job ${allocation.jobId} was orphaned; its ${allocation.tokens} tokens stay unconfirmed in ${batch.strategy}`);
+            continue;
+        }
+        updateJob(allocation.jobId, {
+            state: 'deposited',
+            token: batch.token,
+            tokensReceived: allocation.tokens,
+            allocation
+        });
+    }
+    console.log(`Batch ${batch.id} allocated ${batch.tokensReceived} tokens across ${allocations.length} contributions`);
+    return updateBatch(batch.id, { state: 'allocated', allocations });
+}
+
+/**
+ * Members whose pro-rata share of `minExpected` rounds to zero tokens. The
+ * swap delivers at least `minExpected`, so every other member is sure to get a
+ * share. The largest member is never excluded.
+ */
+export function zeroShareMembers<T extends Pick<Job, 'ethAmount'>>(minExpected: bigint, jobs: T[]): T[] {
+    const total = jobs.reduce((sum, job) => sum + job.ethAmount, 0n);
+    const largest = jobs.reduce((max, job) => (job.ethAmount > max.ethAmount ? job : max));
+    return jobs.filter(job => job !== largest && (minExpected * job.ethAmount) / total === 0n);
+}
+
+/**
+ * Pro-rata shares, rounded down, with the dust given to the largest member.
+ * Each share clears its own minExpected because the total cleared the batch's.
+ */
+export function allocate(
+    batch: Pick<Batch, 'ethAmount' | 'tokensReceived' | 'quote'>,
+    jobs: Pick<Job, 'id' | 'contributor' | 'ethAmount'>[]
+): BatchAllocation[] {
+    const total = batch.ethAmount;
+    const largest = jobs.reduce((max, job) => (job.ethAmount > max.ethAmount ? job : max));
+
+    const allocations = jobs.map(job => ({
+        jobId: job.id,
+        contributor: job.contributor,
+        ethAmount: job.ethAmount,
+        tokens: (batch.tokensReceived! * job.ethAmount) / total,
+        // confirmSwap rejects a zero minimum; zeroShareMembers keeps members that would need one out of the swap
+        minExpected: maxBigInt((batch.quote!.minExpected * job.ethAmount) / total, 1n),
+        dust: 0n
+    }));
+
+    const dust = batch.tokensReceived! - allocations.reduce((sum, allocation) => sum + allocation.tokens, 0n);
+    const top = allocations.find(allocation => allocation.jobId === largest.id)!;
+    top.tokens += dust;
+    top.dust = dust;
+
+    return allocations;
+}
+
+function maxBigInt(a: bigint, b: bigint) {
+    return a > b ? a : b;
+}
+
+function sendBatchStep(batch: Batch, field: BatchHashField, send: () => Promise<`0x${string}`>) {
+    return sendTracked(batch[field], hash => updateBatch(batch.id, { [field]: hash }), `batch ${field}`, send);
+}
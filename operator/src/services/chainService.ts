@@ -1,89 +1,406 @@
-import { publicClient, walletClient, account } from '../config';
+import { encodeFunctionData, parseEventLogs, Log, TransactionReceipt } from 'viem';
+import { publicClient, account, CONFIG } from '../config';
 import { XStrategyABI, ERC20ABI } from '../abis';
-import { getQuote } from './swapService';
+import { getBestQuote, UnfillableError } from './swapService';
+import { getSlippageBps } from './slippagePolicy';
+import { planSlices } from './twapService';
+import { sendTransaction, waitForTransaction, DroppedTransactionError } from './txManager';
+import { simulateJob } from './simulationService';
+import { isBatchable, addToBatch } from './batchService';
+import { awaitConfirmed } from './reorgService';
+import { allowDestination } from '../signer';
+import { Job, JobQuote, getJob, updateJob, updateSlice, isTerminal } from '../store/jobStore';
+import { swapLatency, realizedSlippage, slippageBps } from '../metrics';
+import { raiseAlert } from './alerts';
 
-export async function processContribution(
-    strategyAddress: `0x${string}`,
-    contributor: `0x${string}`,
-    ethAmount: bigint
-) {
-    console.log(`Processing contribution: ${ethAmount} wei from ${contributor} for strategy ${strategyAddress}`);
+type TxHashField = 'swapHash' | 'approveHash' | 'depositHash' | 'confirmHash';
 
+// Jobs currently being driven by this process; guards against double execution
+// when a resumed job and a live event race each other
+const inFlight = new Set<string>();
+
+export function isInFlight(jobId: string) {
+    return inFlight.has(jobId);
+}
+
+interface ProcessOptions {
+    unbatched?: boolean; // Swap on its own even if small enough to batch
+}
+
+/**
+ * Drive a job through quote -> swap -> approve -> deposit -> confirm.
+ * Every step persists its tx hash before waiting on it, so after a crash the
+ * job resumes by waiting on the already-broadcast tx instead of resending it.
+ */
+export async function processJob(jobId: string, options: ProcessOptions = {}) {
+    if (inFlight.has(jobId)) return;
+    inFlight.add(jobId);
+
+    let job = getJob(jobId);
     try {
-        // 1. Get Strategy Token
-        const tokenAddress = await publicClient.readContract({
-            address: strategyAddress,
-            abi: XStrategyABI,
-            functionName: 'token'
-        }) as `0x${string}`;
+        if (!job || isTerminal(job.state)) return;
 
-        // 2. Get Quote
-        const quote = await getQuote(tokenAddress, ethAmount);
-        console.log(`Quote received: Buy ${quote.buyAmount} tokens`);
+        if (CONFIG.DRY_RUN) {
+            // Report only; the job stays as-is so a live operator will still pick it up
+            await simulateJob(job);
+            return;
+        }
 
-        // 3. Measure Operator Balance (To calc exact received)
-        const preBalance = await publicClient.readContract({
-            address: tokenAddress,
-            abi: ERC20ABI,
-            functionName: 'balanceOf',
-            args: [account.address]
-        }); // Returns bigint
+        if (job.state === 'pending') {
+            // Owned by its batch until the batch allocates tokens to it
+            if (job.batchId) return;
+
+            // Never spend ETH on a contribution that could still be reorged out
+            job = await awaitConfirmed(job);
+            if (isTerminal(job.state)) return;
+
+            if (!options.unbatched && isBatchable(job)) {
+                addToBatch(job);
+                return;
+            }
+        }
+
+        console.log(`Processing job ${job.id} (${job.state}): ${job.ethAmount} wei from ${job.contributor} for strategy ${job.strategy}`);
+        job = updateJob(job.id, { attempts: job.attempts + 1 });
+
+        while (!isTerminal(job.state)) {
+            job = await advance(job);
+
+            // Orphaned by a reorg while the step ran; the step's own update must not revive it
+            if (getJob(job.id)!.orphanedAt) {
+                job = updateJob(job.id, { state: 'orphaned' });
+                console.warn(`Stopped job ${job.id}: its contribution was reorged out`);
+                return;
+            }
+        }
+
+        console.log(`SUCCESS: Swap confirmed for job ${job.id}. Refund TX: ${job.confirmHash}`);
+    } catch (error) {
+        if (error instanceof UnfillableError) {
+            console.warn(`Refusing job ${jobId} (${error.reason}); leaving it to the pending-timeout refund: ${error.message}`);
+        } else {
+            console.error(`Error processing job ${jobId}:`, error);
+        }
+        if (job) {
+            updateJob(job.id, {
+                state: 'failed',
+                failedAt: job.state,
+                error: error instanceof Error ? error.message : String(error),
+                unfillable: error instanceof UnfillableError ? error.reason : undefined
+            });
+        }
+    } finally {
+        inFlight.delete(jobId);
+    }
+}
+
+/**
+ * Put a failed job back into the state it failed in and run it again.
+ */
+export function retryJob(jobId: string, options: ProcessOptions = {}): Job {
+    const job = getJob(jobId);
+    if (!job) throw new Error(`Unknown job: ${jobId}`);
+    if (job.state !== 'failed') throw new Error(`Job ${jobId} is ${job.state}, only failed jobs can be retried`);
+    if (job.batchId && !job.allocation) throw new Error(`Job ${jobId} was swapped in batch ${job.batchId}; retry the batch`);
+
+    const retried = updateJob(jobId, {
+        state: job.failedAt ?? 'pending',
+        failedAt: undefined,
+        error: undefined,
+        unfillable: undefined
+    });
+    processJob(jobId, options);
+    return retried;
+}
 
-        // 4. Execute Swap (ETH -> Tokens)
-        console.log('Executing Swap on-chain...');
-        const swapHash = await walletClient.sendTransaction({
+/**
+ * Stop handling a job for good. Tokens already swapped for it stay in the operator wallet.
+ */
+export function abandonJob(jobId: string): Job {
+    const job = getJob(jobId);
+    if (!job) throw new Error(`Unknown job: ${jobId}`);
+    if (inFlight.has(jobId)) throw new Error(`Job ${jobId} is executing; wait for it to fail first`);
+    if (job.state === 'confirmed' || job.state === 'refunded') throw new Error(`Job ${jobId} already settled (${job.state})`);
+
+    return updateJob(jobId, { state: 'abandoned' });
+}
+
+async function advance(job: Job): Promise<Job> {
+    // The signer only signs for strategies and tokens the operator is servicing
+    allowDestination(job.strategy);
+    if (job.token) allowDestination(job.token);
+
+    switch (job.state) {
+        case 'pending':
+            return quoteJob(job);
+        case 'quoted':
+            return swapJob(job);
+        case 'swapped':
+            return approveJob(job);
+        case 'approved':
+            return depositJob(job);
+        case 'deposited':
+            return confirmJob(job);
+        default:
+            throw new Error(`Cannot advance job in state ${job.state}`);
+    }
+}
+
+async function quoteJob(job: Job): Promise<Job> {
+    // Large contributions are swapped in timed slices, each quoted right before it executes
+    if (!job.slices) {
+        const token = await strategyToken(job);
+        const slices = await planSlices(token, job.ethAmount);
+        if (slices) {
+            return updateJob(job.id, { state: 'quoted', token, slices: slices.map(ethAmount => ({ ethAmount })) });
+        }
+    }
+
+    const { token, quote } = await buildQuote(job);
+    return updateJob(job.id, { state: 'quoted', token, quote });
+}
+
+export async function strategyToken(job: Job): Promise<`0x${string}`> {
+    return job.token ?? await publicClient.readContract({
+        address: job.strategy,
+        abi: XStrategyABI,
+        functionName: 'token'
+    }) as `0x${string}`;
+}
+
+/**
+ * Resolve the strategy token and pick the best quote for a job, without persisting it.
+ * @param sellAmount ETH to quote, when only a slice of the contribution is being swapped
+ */
+export async function buildQuote(job: Job, sellAmount = job.ethAmount): Promise<{ token: `0x${string}`; quote: JobQuote }> {
+    // 1. Get Strategy Token
+    const token = await strategyToken(job);
+
+    // 2. Get best Quote across sources, within the strategy's slippage policy
+    const slippageBps = await getSlippageBps(job.strategy);
+    const { quote, netBuyAmount, candidates } = await getBestQuote(token, sellAmount, slippageBps);
+    console.log(`Best quote from ${quote.provider}: Buy ${quote.buyAmount} tokens (${candidates.length} sources compared)`);
+
+    return {
+        token,
+        quote: {
+            provider: quote.provider,
             to: quote.to,
             data: quote.data,
-            value: ethAmount
-        });
-        await publicClient.waitForTransactionReceipt({ hash: swapHash });
-        console.log(`Swap executed: ${swapHash}`);
+            value: quote.value,
+            buyAmount: quote.buyAmount,
+            netBuyAmount,
+            slippageBps,
+            minExpected: (quote.buyAmount * BigInt(10000 - slippageBps)) / 10000n,
+            quotedAt: Date.now(),
+            candidates
+        }
+    };
+}
 
-        // 5. Measure New Balance
-        const postBalance = await publicClient.readContract({
-            address: tokenAddress,
-            abi: ERC20ABI,
-            functionName: 'balanceOf',
-            args: [account.address]
-        });
+async function swapJob(job: Job): Promise<Job> {
+    if (job.slices) return swapSlices(job);
+
+    // Quotes go stale; only re-quote if the swap was never broadcast
+    if (!job.swapHash && Date.now() - job.quote!.quotedAt > CONFIG.QUOTE_TTL_MS) {
+        console.log(`Quote for job ${job.id} expired, re-quoting`);
+        return quoteJob(job);
+    }
+
+    // 3. Execute Swap (ETH -> Tokens)
+    console.log('Executing Swap on-chain...');
+    const startedAt = Date.now();
+    const receipt = await sendStep(job, 'swapHash', () => sendTransaction({
+        to: job.quote!.to,
+        data: job.quote!.data,
+        value: job.quote!.value
+    }));
+    console.log(`Swap executed: ${receipt.transactionHash}`);
+
+    // 4. Measure exact tokens received from the receipt, which stays correct on resume
+    const tokensReceived = tokensReceivedFrom(receipt, job.token!);
+    if (tokensReceived <= 0n) throw new Error("Swap yielded 0 tokens");
+
+    recordFill(`Job ${job.id}`, job.strategy, job.quote!, tokensReceived, startedAt);
+
+    return updateJob(job.id, { state: 'swapped', tokensReceived });
+}
+
+/**
+ * Execute the remaining slices of a split swap, TWAP_SLICE_INTERVAL_MS apart,
+ * then continue with the summed output as if it were a single swap.
+ */
+async function swapSlices(job: Job): Promise<Job> {
+    const slices = job.slices!;
+
+    for (let i = 0; i < slices.length; i++) {
+        let slice = job.slices![i];
+        if (slice.tokensReceived !== undefined) continue;
+
+        if (!slice.swapHash) {
+            const previous = job.slices![i - 1]?.swappedAt;
+            const wait = previous === undefined ? 0 : previous + CONFIG.TWAP_SLICE_INTERVAL_MS - Date.now();
+            if (wait > 0) {
+                console.log(`Job ${job.id}: waiting ${Math.round(wait / 1000)}s before slice ${i + 1}/${slices.length}`);
+                await sleep(wait);
+            }
+
+            const { quote } = await buildQuote(job, slice.ethAmount);
+            job = updateSlice(job.id, i, { quote });
+            slice = job.slices![i];
+        }
 
-        const tokensReceived = postBalance - (preBalance as bigint);
-        if (tokensReceived <= 0n) throw new Error("Swap yielded 0 tokens");
+        console.log(`Executing slice ${i + 1}/${slices.length} of job ${job.id}: ${slice.ethAmount} wei`);
+        const startedAt = Date.now();
+        const receipt = await sendTracked(
+            slice.swapHash,
+            hash => updateSlice(job.id, i, { swapHash: hash }),
+            `slice ${i + 1} swap`,
+            () => sendTransaction({ to: slice.quote!.to, data: slice.quote!.data, value: slice.quote!.value })
+        );
 
-        // 6. Approve Strategy to pull tokens
-        console.log('Approving tokens...');
-        const approveHash = await walletClient.writeContract({
-            address: tokenAddress,
+        const tokensReceived = tokensReceivedFrom(receipt, job.token!);
+        if (tokensReceived <= 0n) throw new Error(`Slice ${i + 1} yielded 0 tokens`);
+
+        recordFill(`Job ${job.id} slice ${i + 1}`, job.strategy, slice.quote!, tokensReceived, startedAt);
+
+        job = updateSlice(job.id, i, { tokensReceived, swappedAt: Date.now() });
+    }
+
+    const tokensReceived = job.slices!.reduce((sum, slice) => sum + slice.tokensReceived!, 0n);
+    console.log(`All ${slices.length} slices of job ${job.id} executed: ${tokensReceived} tokens`);
+    return updateJob(job.id, { state: 'swapped', tokensReceived });
+}
+
+async function approveJob(job: Job): Promise<Job> {
+    // 5. Approve Strategy to pull tokens
+    console.log('Approving tokens...');
+    await sendStep(job, 'approveHash', () => sendTransaction({
+        to: job.token!,
+        data: encodeFunctionData({
             abi: ERC20ABI,
             functionName: 'approve',
-            args: [strategyAddress, tokensReceived]
-        });
-        await publicClient.waitForTransactionReceipt({ hash: approveHash });
+            args: [job.strategy, job.tokensReceived!]
+        })
+    }));
 
-        // 7. Deposit Tokens to Strategy
-        console.log('Depositing tokens...');
-        const depositHash = await walletClient.writeContract({
-            address: strategyAddress,
+    return updateJob(job.id, { state: 'approved' });
+}
+
+async function depositJob(job: Job): Promise<Job> {
+    // 6. Deposit Tokens to Strategy
+    console.log('Depositing tokens...');
+    await sendStep(job, 'depositHash', () => sendTransaction({
+        to: job.strategy,
+        data: encodeFunctionData({
             abi: XStrategyABI,
             functionName: 'receiveTokens',
-            args: [tokensReceived]
-        });
-        await publicClient.waitForTransactionReceipt({ hash: depositHash });
+            args: [job.tokensReceived!]
+        })
+    }));
 
-        // 8. Confirm Swap (Triggers ETH Refund to Operator)
-        console.log('Confirming swap...');
-        const minExpected = (quote.buyAmount * 95n) / 100n; // 5% slippage tolerance
-        const confirmHash = await walletClient.writeContract({
-            address: strategyAddress,
+    return updateJob(job.id, { state: 'deposited' });
+}
+
+async function confirmJob(job: Job): Promise<Job> {
+    // 7. Confirm Swap (Triggers ETH Refund to Operator)
+    console.log('Confirming swap...');
+    await sendStep(job, 'confirmHash', () => sendTransaction({
+        to: job.strategy,
+        data: encodeFunctionData({
             abi: XStrategyABI,
             functionName: 'confirmSwap',
-            args: [contributor, ethAmount, tokensReceived, minExpected]
+            args: [job.contributor, job.ethAmount, job.tokensReceived!, minExpectedFor(job)]
+        })
+    }));
+
+    return updateJob(job.id, { state: 'confirmed' });
+}
+
+/**
+ * Record a mined swap's latency and realized slippage, alerting when the fill
+ * fell short of the quote by more than the strategy's slippage policy.
+ */
+export function recordFill(subject: string, strategy: `0x${string}`, quote: JobQuote, tokensReceived: bigint, startedAt: number) {
+    const realized = slippageBps(quote.buyAmount, tokensReceived);
+    swapLatency.observe((Date.now() - startedAt) / 1000);
+    realizedSlippage.observe(realized);
+
+    if (realized > quote.slippageBps) {
+        raiseAlert({
+            key: `slippage:${subject}`,
+            severity: 'warning',
+            title: 'Realized slippage above policy',
+            message: `${subject} received ${tokensReceived} tokens against a quote of ${quote.buyAmount} (${realized} bps > ${quote.slippageBps} bps)`,
+            fields: { strategy, provider: quote.provider }
         });
-        await publicClient.waitForTransactionReceipt({ hash: confirmHash });
+    }
+}
+
+// A split swap must clear the sum of its slices' minimums; a batched job its pro-rata share
+function minExpectedFor(job: Job): bigint {
+    if (job.allocation) return job.allocation.minExpected;
+    if (!job.slices) return job.quote!.minExpected;
+    return job.slices.reduce((sum, slice) => sum + slice.quote!.minExpected, 0n);
+}
 
-        console.log(`SUCCESS: Swap confirmed. Refund TX: ${confirmHash}`);
+function sleep(ms: number) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Broadcast a step's transaction at most once and wait for it to be mined.
+ * Gas-bump replacements are written back to the job as they happen.
+ * A reverted or dropped tx clears the stored hash so a retry will broadcast afresh.
+ */
+function sendStep(
+    job: Job,
+    field: TxHashField,
+    send: () => Promise<`0x${string}`>
+): Promise<TransactionReceipt> {
+    return sendTracked(job[field], hash => updateJob(job.id, { [field]: hash }), field, send);
+}
+
+/**
+ * Broadcast once and wait, persisting the hash (and any replacement) through `persist`.
+ */
+export async function sendTracked(
+    existing: `0x${string}` | undefined,
+    persist: (hash: `0x${string}` | undefined) => void,
+    label: string,
+    send: () => Promise<`0x${string}`>
+): Promise<TransactionReceipt> {
+    let hash = existing;
+    if (!hash) {
+        hash = await send();
+        persist(hash);
+    }
 
+    let receipt: TransactionReceipt;
+    try {
+        receipt = await waitForTransaction(hash, persist);
     } catch (error) {
-        console.error('Error processing contribution:', error);
+        if (error instanceof DroppedTransactionError) persist(undefined);
+        throw error;
+    }
+    if (receipt.status !== 'success') {
+        persist(undefined);
+        throw new Error(`Transaction ${hash} reverted (${label})`);
     }
+    return receipt;
+}
+
+/**
+ * Sum of `token` transferred to the operator in a set of logs (a receipt's or a simulation's).
+ */
+export function tokensReceivedFrom(receipt: { logs: Log[] }, token: `0x${string}`): bigint {
+    const transfers = parseEventLogs({
+        abi: ERC20ABI,
+        eventName: 'Transfer',
+        logs: receipt.logs.filter(log => log.address.toLowerCase() === token.toLowerCase())
+    });
+
+    return transfers
+        .filter(log => log.args.to.toLowerCase() === account.address.toLowerCase())
+        .reduce((sum, log) => sum + log.args.value, 0n);
 }
@@ -0,0 +1,69 @@
+import { publicClient } from '../config';
+import { XStrategyABI } from '../abis';
+import { processJob } from './chainService';
+import { onContributionRemoved, reanchorJob } from './reorgService';
+import { createJob, getJob, findJobBySource, jobIdFor } from '../store/jobStore';
+import { advanceCheckpoint } from '../store/checkpointStore';
+
+export interface ContributionPendingLog {
+    args: { contributor?: `0x${string}`; amount?: bigint };
+    transactionHash: `0x${string}`;
+    logIndex: number;
+    blockNumber: bigint;
+    blockHash: `0x${string}`;
+    removed?: boolean; // Set by the node when a reorg drops a log it already delivered
+}
+
+/**
+ * Turn a ContributionPending log into a job and start processing it.
+ * Historical logs (backfill) are checked against on-chain pending balances
+ * first, so contributions settled while we had no local record are skipped.
+ * Removed logs and re-mined ones are routed to the reorg handling.
+ */
+export async function onContributionPending(
+    strategy: `0x${string}`,
+    log: ContributionPendingLog,
+    { historical = false }: { historical?: boolean } = {}
+) {
+    const { contributor, amount } = log.args;
+    if (!contributor || !amount) return;
+
+    const id = jobIdFor(strategy, log.transactionHash, log.logIndex);
+    const known = getJob(id) ?? findJobBySource(strategy, log.transactionHash, contributor, amount);
+
+    if (log.removed) {
+        if (known) await onContributionRemoved(known);
+        return;
+    }
+    if (known && known.blockHash && known.blockHash !== log.blockHash) {
+        reanchorJob(known, log.blockNumber, log.blockHash);
+        advanceCheckpoint(strategy, log.blockNumber);
+        return;
+    }
+
+    if (historical && !known) {
+        const pending = await publicClient.readContract({
+            address: strategy,
+            abi: XStrategyABI,
+            functionName: 'pendingContributions',
+            args: [contributor]
+        });
+        if (pending < amount) {
+            console.log(`Skipping settled contribution ${id} (on-chain pending: ${pending})`);
+            return;
+        }
+    }
+
+    const { job, created } = createJob({
+        strategy,
+        contributor,
+        ethAmount: amount,
+        sourceTx: log.transactionHash,
+        sourceLogIndex: log.logIndex,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash
+    });
+    if (created) processJob(job.id);
+
+    advanceCheckpoint(strategy, log.blockNumber);
+}
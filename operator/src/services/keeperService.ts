@@ -0,0 +1,119 @@
+import { encodeFunctionData, zeroAddress } from 'viem';
+import { publicClient, CONFIG } from '../config';
+import { XStrategyFactoryABI, XStrategyABI, ContractStatus } from '../abis';
+import { sendTransaction, waitForTransaction } from './txManager';
+import { KeeperActionName, getKeeperAction, recordKeeperAction } from '../store/keeperStore';
+
+// Give up on an action after this many failed attempts; it stays in the log for review
+const MAX_ATTEMPTS = 3;
+
+/**
+ * Periodically push strategies through the permissionless end-of-life steps:
+ * initiateUnwind once the deadline passes with milestones outstanding,
+ * executeUnwind after the COOLDOWN, then distribute through the split.
+ */
+export function startKeeper() {
+    console.log(`Keeper running every ${CONFIG.KEEPER_INTERVAL_MS}ms`);
+
+    let running = false;
+    const tick = async () => {
+        if (running) return; // Previous pass still waiting on receipts
+        running = true;
+        try {
+            await runKeeperPass();
+        } catch (error) {
+            console.error('Keeper pass failed:', error);
+        } finally {
+            running = false;
+        }
+    };
+
+    tick();
+    setInterval(tick, CONFIG.KEEPER_INTERVAL_MS);
+}
+
+export async function runKeeperPass() {
+    const [strategies, block] = await Promise.all([
+        publicClient.readContract({
+            address: CONFIG.FACTORY_ADDRESS,
+            abi: XStrategyFactoryABI,
+            functionName: 'getAllStrategies'
+        }),
+        publicClient.getBlock()
+    ]);
+
+    for (const strategy of strategies) {
+        try {
+            const action = await nextAction(strategy, block.timestamp);
+            if (!action) continue;
+
+            const previous = getKeeperAction(strategy, action);
+            if (previous?.status === 'failed' && previous.attempts >= MAX_ATTEMPTS) continue;
+
+            await performKeeperAction(strategy, action);
+        } catch (error) {
+            console.error(`Keeper failed on ${strategy}:`, error);
+        }
+    }
+}
+
+async function nextAction(strategy: `0x${string}`, now: bigint): Promise<KeeperActionName | undefined> {
+    const read = <F extends 'status' | 'deadline' | 'unwindInitiatedAt' | 'COOLDOWN' | 'splitAddress' | 'getProgress'>(functionName: F) =>
+        publicClient.readContract({ address: strategy, abi: XStrategyABI, functionName });
+
+    const status = await read('status') as ContractStatus;
+
+    switch (status) {
+        case ContractStatus.ACTIVE: {
+            const [deadline, [completed, total]] = await Promise.all([read('deadline'), read('getProgress')]);
+            return now >= deadline && completed < total ? 'initiateUnwind' : undefined;
+        }
+        case ContractStatus.UNWINDING: {
+            const [initiatedAt, cooldown] = await Promise.all([read('unwindInitiatedAt'), read('COOLDOWN')]);
+            return now >= initiatedAt + BigInt(cooldown) ? 'executeUnwind' : undefined;
+        }
+        case ContractStatus.COMPLETED_SUCCESS:
+        case ContractStatus.COMPLETED_FAILURE: {
+            if (getKeeperAction(strategy, 'distribute')?.status === 'mined') return undefined;
+            const split = await read('splitAddress');
+            return split !== zeroAddress ? 'distribute' : undefined;
+        }
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Send one end-of-life call and record it in the keeper log. Also used by the
+ * admin CLI to force a step, bypassing the schedule and attempt limit.
+ */
+export async function performKeeperAction(strategy: `0x${string}`, action: KeeperActionName) {
+    if (CONFIG.DRY_RUN) {
+        console.log(`[DRY RUN] Keeper would call ${action} on ${strategy}`);
+        return;
+    }
+    console.log(`Keeper: ${action} on ${strategy}`);
+
+    let hash: `0x${string}` | undefined;
+    try {
+        hash = await sendTransaction({
+            to: strategy,
+            data: encodeFunctionData({ abi: XStrategyABI, functionName: action })
+        });
+        recordKeeperAction(strategy, action, { status: 'sent', hash });
+
+        const receipt = await waitForTransaction(hash, replacement =>
+            recordKeeperAction(strategy, action, { status: 'sent', hash: replacement, replacement: true })
+        );
+        if (receipt.status !== 'success') throw new Error(`Transaction ${receipt.transactionHash} reverted`);
+
+        recordKeeperAction(strategy, action, { status: 'mined', hash: receipt.transactionHash });
+        console.log(`Keeper: ${action} on ${strategy} mined in ${receipt.transactionHash}`);
+    } catch (error) {
+        recordKeeperAction(strategy, action, {
+            status: 'failed',
+            error: error instanceof Error ? error.message : String(error)
+        });
+        throw error;
+    }
+}
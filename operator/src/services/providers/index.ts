@@ -0,0 +1,35 @@
+import { PublicClient } from 'viem';
+import { CONFIG, publicClient } from '../../config';
+import { SwapProvider } from './types';
+import { createZeroExV1Provider, createZeroExV2Provider } from './zeroEx';
+import { createUniswapV3Provider } from './uniswapV3';
+import { createMockProvider } from './mock';
+
+export * from './types';
+
+export type SwapProviderName = '0x-v1' | '0x-v2' | 'uniswap-v3' | 'mock';
+
+export function createSwapProvider(name: SwapProviderName): SwapProvider {
+    const client = publicClient as PublicClient;
+
+    switch (name) {
+        case '0x-v1':
+            return createZeroExV1Provider(CONFIG.ZERO_EX_API_KEY);
+        case '0x-v2':
+            return createZeroExV2Provider(CONFIG.ZERO_EX_API_KEY, CONFIG.CHAIN.id);
+        case 'uniswap-v3':
+            if (!CONFIG.UNISWAP_QUOTER || !CONFIG.UNISWAP_ROUTER) {
+                throw new Error('UNISWAP_QUOTER and UNISWAP_ROUTER are required for the uniswap-v3 provider');
+            }
+            return createUniswapV3Provider(client, {
+                quoter: CONFIG.UNISWAP_QUOTER,
+                router: CONFIG.UNISWAP_ROUTER,
+                weth: CONFIG.WETH_ADDRESS,
+                feeTiers: CONFIG.UNISWAP_FEE_TIERS
+            });
+        case 'mock':
+            return createMockProvider(client, CONFIG.MOCK_AMM_ADDRESS);
+        default:
+            throw new Error(`Unknown swap provider: ${name}`);
+    }
+}
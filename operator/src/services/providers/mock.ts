@@ -0,0 +1,48 @@
+import { encodeFunctionData, PublicClient } from 'viem';
+import { MockAMMABI } from '../../abis';
+import { SwapProvider, QuoteRequest, Quote } from './types';
+import { probeAmount, priceImpactBps } from './priceImpact';
+
+// Fixed so quotes are reproducible across runs
+const MOCK_SWAP_GAS = 80_000n;
+
+/**
+ * Deterministic provider backed by the MockAMM fixture contract
+ * (contracts/src/mocks/MockAMM.sol). Intended for anvil; makes no HTTP calls.
+ */
+export function createMockProvider(publicClient: PublicClient, amm: `0x${string}` | undefined): SwapProvider {
+    return {
+        name: 'mock',
+        async getQuote({ buyToken, sellAmount, taker, slippageBps }: QuoteRequest): Promise<Quote> {
+            if (!amm) throw new Error('MOCK_AMM_ADDRESS required for the mock swap provider');
+
+            const probeIn = probeAmount(sellAmount);
+            const [buyAmount, probeOut] = await Promise.all([sellAmount, probeIn].map(amount =>
+                publicClient.readContract({
+                    address: amm,
+                    abi: MockAMMABI,
+                    functionName: 'getAmountOut',
+                    args: [buyToken, amount]
+                })
+            ));
+
+            const data = encodeFunctionData({
+                abi: MockAMMABI,
+                functionName: 'swapExactETHForTokens',
+                args: [buyToken, (buyAmount * BigInt(10000 - slippageBps)) / 10000n, taker]
+            });
+
+            return {
+                provider: 'mock',
+                buyAmount,
+                data,
+                to: amm,
+                value: sellAmount,
+                grossBuyAmount: buyAmount,
+                sellAmount,
+                estimatedGas: MOCK_SWAP_GAS,
+                priceImpactBps: priceImpactBps(probeIn, probeOut, sellAmount, buyAmount)
+            };
+        }
+    };
+}
@@ -0,0 +1,18 @@
+// Probe trades are this fraction of the real size, small enough to approximate the spot price
+const PROBE_DIVISOR = 1000n;
+
+export function probeAmount(sellAmount: bigint): bigint {
+    const probe = sellAmount / PROBE_DIVISOR;
+    return probe > 0n ? probe : 1n;
+}
+
+/**
+ * Price impact of a trade relative to a near-spot probe trade on the same pool, in bps.
+ */
+export function priceImpactBps(probeIn: bigint, probeOut: bigint, amountIn: bigint, amountOut: bigint): number {
+    if (probeOut === 0n || amountIn === 0n) return 10000;
+
+    // Execution price / spot price, scaled to bps
+    const ratioBps = (amountOut * probeIn * 10000n) / (probeOut * amountIn);
+    return ratioBps >= 10000n ? 0 : Number(10000n - ratioBps);
+}
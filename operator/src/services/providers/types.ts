@@ -0,0 +1,30 @@
+export interface QuoteRequest {
+    buyToken: `0x${string}`;
+    sellAmount: bigint; // ETH in wei
+    taker: `0x${string}`;
+    slippageBps: number; // Max slippage encoded into the swap calldata
+}
+
+export interface Quote {
+    provider: string;
+    buyAmount: bigint;
+    data: `0x${string}`;
+    to: `0x${string}`;
+    value: bigint; // ETH to attach to the swap tx
+    grossBuyAmount: bigint;
+    sellAmount: bigint;
+    estimatedGas?: bigint;
+    priceImpactBps?: number; // Estimated, when the source can tell
+}
+
+/**
+ * A source of executable ETH -> token swap quotes.
+ * The returned calldata must be sendable as-is from `taker`.
+ */
+export interface SwapProvider {
+    readonly name: string;
+    getQuote(request: QuoteRequest): Promise<Quote>;
+}
+
+// 0x and others use this sentinel for native ETH
+export const NATIVE_ETH = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
@@ -0,0 +1,77 @@
+import { encodeFunctionData, PublicClient } from 'viem';
+import { UniswapV3QuoterV2ABI, UniswapV3RouterABI } from '../../abis';
+import { SwapProvider, QuoteRequest, Quote } from './types';
+import { probeAmount, priceImpactBps } from './priceImpact';
+
+export interface UniswapV3Options {
+    quoter: `0x${string}`; // QuoterV2
+    router: `0x${string}`; // SwapRouter02 (wraps attached ETH when tokenIn is WETH)
+    weth: `0x${string}`;
+    feeTiers: number[];
+}
+
+/**
+ * Direct Uniswap V3 single-hop WETH -> token route.
+ * Quotes every configured fee tier on-chain and routes through the best pool.
+ */
+export function createUniswapV3Provider(publicClient: PublicClient, options: UniswapV3Options): SwapProvider {
+    return {
+        name: 'uniswap-v3',
+        async getQuote({ buyToken, sellAmount, taker, slippageBps }: QuoteRequest): Promise<Quote> {
+            const quoteTier = async (fee: number, amountIn: bigint) => {
+                const { result } = await publicClient.simulateContract({
+                    address: options.quoter,
+                    abi: UniswapV3QuoterV2ABI,
+                    functionName: 'quoteExactInputSingle',
+                    args: [{
+                        tokenIn: options.weth,
+                        tokenOut: buyToken,
+                        amountIn,
+                        fee,
+                        sqrtPriceLimitX96: 0n
+                    }]
+                });
+                const [amountOut, , , gasEstimate] = result;
+                return { fee, amountOut, gasEstimate };
+            };
+
+            const results = await Promise.allSettled(options.feeTiers.map(fee => quoteTier(fee, sellAmount)));
+
+            const pools = results
+                .filter(r => r.status === 'fulfilled')
+                .map(r => r.value)
+                .filter(pool => pool.amountOut > 0n);
+            if (pools.length === 0) throw new Error(`Uniswap V3: no pool for ${buyToken}`);
+
+            const best = pools.reduce((a, b) => (b.amountOut > a.amountOut ? b : a));
+            const probeIn = probeAmount(sellAmount);
+            const probe = await quoteTier(best.fee, probeIn);
+
+            const data = encodeFunctionData({
+                abi: UniswapV3RouterABI,
+                functionName: 'exactInputSingle',
+                args: [{
+                    tokenIn: options.weth,
+                    tokenOut: buyToken,
+                    fee: best.fee,
+                    recipient: taker,
+                    amountIn: sellAmount,
+                    amountOutMinimum: (best.amountOut * BigInt(10000 - slippageBps)) / 10000n,
+                    sqrtPriceLimitX96: 0n
+                }]
+            });
+
+            return {
+                provider: 'uniswap-v3',
+                buyAmount: best.amountOut,
+                data,
+                to: options.router,
+                value: sellAmount,
+                grossBuyAmount: best.amountOut,
+                sellAmount,
+                estimatedGas: best.gasEstimate,
+                priceImpactBps: priceImpactBps(probeIn, probe.amountOut, sellAmount, best.amountOut)
+            };
+        }
+    };
+}
@@ -0,0 +1,114 @@
+import { SwapProvider, QuoteRequest, Quote, NATIVE_ETH } from './types';
+import { probeAmount, priceImpactBps } from './priceImpact';
+
+// Swap targets the quotes point at; the same address on every supported chain
+export const ZERO_EX_V1_EXCHANGE_PROXY = '0xDef1C0ded9bec7F1a1670819833240f027b25EfF';
+export const ZERO_EX_V2_ALLOWANCE_HOLDER = '0x0000000000001fF3684f28c67538d4D072C22734';
+
+/**
+ * 0x Swap API v1 (`/swap/v1/quote`).
+ */
+export function createZeroExV1Provider(apiKey: string | undefined): SwapProvider {
+    return {
+        name: '0x-v1',
+        async getQuote({ buyToken, sellAmount, taker, slippageBps }: QuoteRequest): Promise<Quote> {
+            if (!apiKey) throw new Error('ZERO_EX_API_KEY required for mainnet/testnet');
+
+            const params = new URLSearchParams({
+                buyToken,
+                sellToken: 'ETH',
+                sellAmount: sellAmount.toString(),
+                takerAddress: taker,
+                slippagePercentage: (slippageBps / 10000).toString()
+            });
+
+            const response = await fetch(`https://api.0x.org/swap/v1/quote?${params.toString()}`, {
+                headers: {
+                    '0x-api-key': apiKey
+                }
+            });
+
+            if (!response.ok) {
+                throw new Error(`0x API Error: ${response.statusText}`);
+            }
+
+            const data = await response.json();
+
+            return {
+                provider: '0x-v1',
+                buyAmount: BigInt(data.buyAmount),
+                data: data.data as `0x${string}`,
+                to: data.to as `0x${string}`,
+                value: BigInt(data.value ?? sellAmount),
+                grossBuyAmount: BigInt(data.grossBuyAmount),
+                sellAmount: BigInt(data.sellAmount),
+                estimatedGas: data.estimatedGas ? BigInt(data.estimatedGas) : undefined,
+                // Reported as a percentage string, e.g. "0.42"
+                priceImpactBps: data.estimatedPriceImpact != null
+                    ? Math.round(Number(data.estimatedPriceImpact) * 100)
+                    : undefined
+            };
+        }
+    };
+}
+
+/**
+ * 0x Swap API v2 allowance-holder flow (`/swap/allowance-holder/quote`).
+ * Selling native ETH needs no allowance, so the quote's transaction is sent directly.
+ * v2 reports no price impact, so it is derived from an indicative probe-sized price.
+ */
+export function createZeroExV2Provider(apiKey: string | undefined, chainId: number): SwapProvider {
+    const request = async (endpoint: 'quote' | 'price', buyToken: `0x${string}`, sellAmount: bigint, taker: `0x${string}`, slippageBps: number) => {
+        const params = new URLSearchParams({
+            chainId: chainId.toString(),
+            buyToken,
+            sellToken: NATIVE_ETH,
+            sellAmount: sellAmount.toString(),
+            taker,
+            slippageBps: slippageBps.toString()
+        });
+
+        const response = await fetch(`https://api.0x.org/swap/allowance-holder/${endpoint}?${params.toString()}`, {
+            headers: {
+                '0x-api-key': apiKey!,
+                '0x-version': 'v2'
+            }
+        });
+
+        if (!response.ok) {
+            throw new Error(`0x API Error: ${response.statusText}`);
+        }
+
+        const data = await response.json();
+        if (!data.liquidityAvailable) {
+            throw new Error(`0x API Error: no liquidity for ${buyToken}`);
+        }
+        return data;
+    };
+
+    return {
+        name: '0x-v2',
+        async getQuote({ buyToken, sellAmount, taker, slippageBps }: QuoteRequest): Promise<Quote> {
+            if (!apiKey) throw new Error('ZERO_EX_API_KEY required for mainnet/testnet');
+
+            const probeIn = probeAmount(sellAmount);
+            const [data, probe] = await Promise.all([
+                request('quote', buyToken, sellAmount, taker, slippageBps),
+                request('price', buyToken, probeIn, taker, slippageBps)
+            ]);
+            const buyAmount = BigInt(data.buyAmount);
+
+            return {
+                provider: '0x-v2',
+                buyAmount,
+                data: data.transaction.data as `0x${string}`,
+                to: data.transaction.to as `0x${string}`,
+                value: BigInt(data.transaction.value),
+                grossBuyAmount: buyAmount,
+                sellAmount: BigInt(data.sellAmount),
+                estimatedGas: data.transaction.gas ? BigInt(data.transaction.gas) : undefined,
+                priceImpactBps: priceImpactBps(probeIn, BigInt(probe.buyAmount), BigInt(data.sellAmount), buyAmount)
+            };
+        }
+    };
+}
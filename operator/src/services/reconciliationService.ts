@@ -0,0 +1,146 @@
+import { encodeFunctionData, formatEther } from 'viem';
+import { publicClient, account, CONFIG } from '../config';
+import { XStrategyABI } from '../abis';
+import { sendTransaction, waitForTransaction } from './txManager';
+import { allowDestination } from '../signer';
+import { raiseAlert } from './alerts';
+import { listJobs, getResumableJobs } from '../store/jobStore';
+import { listLedgers, getLedger, updateLedger, recordWithdrawal } from '../store/ledgerStore';
+
+/**
+ * Periodically compare what each strategy owes the operator with its on-chain
+ * operatorBalances, flag any mismatch, and withdraw what has accrued.
+ */
+export function startReconciler() {
+    console.log(`Balance reconciler running every ${CONFIG.RECONCILE_INTERVAL_MS}ms`);
+
+    let running = false;
+    const tick = async () => {
+        if (running) return;
+        running = true;
+        try {
+            await runReconcilePass();
+        } catch (error) {
+            console.error('Reconcile pass failed:', error);
+        } finally {
+            running = false;
+        }
+    };
+
+    tick();
+    setInterval(tick, CONFIG.RECONCILE_INTERVAL_MS);
+}
+
+export async function runReconcilePass() {
+    // Jobs and ledgers may spell the same strategy in different cases; one entry per strategy
+    const key = (strategy: `0x${string}`) => strategy.toLowerCase() as `0x${string}`;
+
+    // ETH we fronted for swaps that the strategy has since credited back
+    const confirmed = new Map<`0x${string}`, bigint>();
+    for (const job of listJobs(job => job.state === 'confirmed')) {
+        confirmed.set(key(job.strategy), (confirmed.get(key(job.strategy)) ?? 0n) + job.ethAmount);
+    }
+    for (const ledger of listLedgers()) {
+        if (!confirmed.has(key(ledger.strategy))) confirmed.set(key(ledger.strategy), 0n);
+    }
+
+    // A confirmSwap landing mid-withdrawal would blur how much was withdrawn; wait for quiet strategies
+    const busy = new Set(getResumableJobs().map(job => key(job.strategy)));
+
+    for (const [strategy, confirmedEth] of confirmed) {
+        try {
+            await reconcileStrategy(strategy, confirmedEth, busy.has(strategy));
+        } catch (error) {
+            console.error(`Reconcile failed on ${strategy}:`, error);
+        }
+    }
+}
+
+async function reconcileStrategy(strategy: `0x${string}`, confirmedEth: bigint, busy: boolean) {
+    const pending = getLedger(strategy).pendingWithdrawal;
+    if (pending) await settleWithdrawal(strategy, pending);
+
+    const ledger = getLedger(strategy);
+    const expected = confirmedEth - ledger.withdrawn;
+    const onChain = await publicClient.readContract({
+        address: strategy,
+        abi: XStrategyABI,
+        functionName: 'operatorBalances',
+        args: [account.address]
+    });
+
+    // A mismatch persists across withdrawals until explained, so only report when it changes
+    const discrepancy = onChain - expected;
+    updateLedger(strategy, { expected, onChain, discrepancy, checkedAt: Date.now() });
+    if (discrepancy !== 0n && discrepancy !== ledger.discrepancy) {
+        raiseAlert({
+            key: `balance-mismatch:${strategy}:${discrepancy}`,
+            severity: 'warning',
+            title: 'Operator balance mismatch',
+            message: `Expected ${formatEther(expected)} ETH on ${strategy}, on-chain ${formatEther(onChain)} ETH (${discrepancy > 0n ? '+' : ''}${formatEther(discrepancy)})`,
+            fields: { strategy }
+        });
+    }
+
+    if (busy || onChain === 0n || onChain < CONFIG.RECONCILE_MIN_WITHDRAW_WEI) return;
+    await withdraw(strategy, onChain);
+}
+
+/**
+ * Withdraw a strategy's whole operator balance now, regardless of the
+ * threshold or jobs in flight. Used by the admin CLI.
+ * @returns The amount withdrawn, 0 if there was nothing to withdraw
+ */
+export async function withdrawBalance(strategy: `0x${string}`): Promise<bigint> {
+    const pending = getLedger(strategy).pendingWithdrawal;
+    if (pending) await settleWithdrawal(strategy, pending);
+
+    const onChain = await publicClient.readContract({
+        address: strategy,
+        abi: XStrategyABI,
+        functionName: 'operatorBalances',
+        args: [account.address]
+    });
+    if (onChain === 0n) return 0n;
+    return withdraw(strategy, onChain);
+}
+
+async function withdraw(strategy: `0x${string}`, amount: bigint): Promise<bigint> {
+    if (CONFIG.DRY_RUN) {
+        console.log(`[DRY RUN] Would withdraw ${formatEther(amount)} ETH from ${strategy}`);
+        return 0n;
+    }
+
+    console.log(`Withdrawing ${formatEther(amount)} ETH operator balance from ${strategy}`);
+    allowDestination(strategy);
+    const hash = await sendTransaction({
+        to: strategy,
+        data: encodeFunctionData({ abi: XStrategyABI, functionName: 'withdrawOperatorBalance' })
+    });
+    updateLedger(strategy, { pendingWithdrawal: hash });
+    return settleWithdrawal(strategy, hash);
+}
+
+async function settleWithdrawal(strategy: `0x${string}`, hash: `0x${string}`): Promise<bigint> {
+    const receipt = await waitForTransaction(hash, replacement => updateLedger(strategy, { pendingWithdrawal: replacement }))
+        .catch(error => {
+            updateLedger(strategy, { pendingWithdrawal: undefined });
+            throw error;
+        });
+    if (receipt.status !== 'success') {
+        updateLedger(strategy, { pendingWithdrawal: undefined });
+        throw new Error(`Withdrawal ${receipt.transactionHash} reverted`);
+    }
+
+    // The withdrawal empties the balance; what it held just before is what we received
+    const amount = await publicClient.readContract({
+        address: strategy,
+        abi: XStrategyABI,
+        functionName: 'operatorBalances',
+        args: [account.address],
+        blockNumber: receipt.blockNumber - 1n
+    });
+    recordWithdrawal(strategy, { hash: receipt.transactionHash, amount, blockNumber: receipt.blockNumber, at: Date.now() });
+    console.log(`Withdrew ${formatEther(amount)} ETH from ${strategy}: ${receipt.transactionHash}`);
+    return amount;
+}
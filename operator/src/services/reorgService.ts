@@ -0,0 +1,188 @@
+import { parseEventLogs, TransactionReceiptNotFoundError } from 'viem';
+import { publicClient, CONFIG } from '../config';
+import { XStrategyABI } from '../abis';
+import { processJob } from './chainService';
+import { raiseAlert } from './alerts';
+import { removeFromBatch } from './batchService';
+import { Job, StrandedTokens, getJob, updateJob, isTerminal } from '../store/jobStore';
+import { getBatch } from '../store/batchStore';
+
+type SourceLocation =
+    | { status: 'canonical' }
+    | { status: 'moved'; blockNumber: bigint; blockHash: `0x${string}` }
+    | { status: 'orphaned' };
+
+function sleep(ms: number) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Where the job's ContributionPending log is on the current canonical chain.
+ * A reorg either drops the contribution tx or re-mines it in another block.
+ * Throws on RPC failures: only the node answering "no receipt" means the tx is gone.
+ */
+async function locateSource(job: Job): Promise<SourceLocation> {
+    const receipt = await publicClient.getTransactionReceipt({ hash: job.sourceTx }).catch(error => {
+        if (error instanceof TransactionReceiptNotFoundError) return undefined;
+        throw error;
+    });
+    if (!receipt || receipt.status !== 'success') return { status: 'orphaned' };
+
+    const found = parseEventLogs({
+        abi: XStrategyABI,
+        eventName: 'ContributionPending',
+        logs: receipt.logs.filter(log => log.address.toLowerCase() === job.strategy.toLowerCase())
+    }).some(log => log.args.contributor.toLowerCase() === job.contributor.toLowerCase() && log.args.amount === job.ethAmount);
+    if (!found) return { status: 'orphaned' };
+
+    return receipt.blockHash === job.blockHash
+        ? { status: 'canonical' }
+        : { status: 'moved', blockNumber: receipt.blockNumber, blockHash: receipt.blockHash };
+}
+
+/**
+ * Hold a pending job until its source log is CONFIRMATIONS blocks deep and
+ * still on the canonical chain. No ETH is spent on a contribution before this.
+ * @returns The job, orphaned if its source is gone
+ */
+export async function awaitConfirmed(job: Job): Promise<Job> {
+    while (true) {
+        // The removed-log handler may have orphaned it meanwhile
+        const current = getJob(job.id)!;
+        if (current.state !== job.state) return current;
+
+        const head = await publicClient.getBlockNumber();
+        if (head < job.blockNumber + BigInt(CONFIG.CONFIRMATIONS)) {
+            await sleep(CONFIG.TX_POLL_INTERVAL_MS);
+            continue;
+        }
+
+        let source: SourceLocation;
+        try {
+            source = await locateSource(job);
+        } catch (error) {
+            console.warn(`Could not locate the source of job ${job.id}, retrying:`, error instanceof Error ? error.message : error);
+            await sleep(CONFIG.TX_POLL_INTERVAL_MS);
+            continue;
+        }
+        if (source.status === 'canonical') return job;
+        if (source.status === 'orphaned') return orphanJob(job);
+
+        console.log(`Contribution for job ${job.id} re-mined in block ${source.blockNumber}; waiting for confirmations again`);
+        job = updateJob(job.id, { blockNumber: source.blockNumber, blockHash: source.blockHash });
+    }
+}
+
+/**
+ * A watcher reported the job's source log as removed. Re-check the chain:
+ * the tx is often simply re-mined in the replacing block.
+ */
+export async function onContributionRemoved(job: Job) {
+    let source: SourceLocation;
+    while (true) {
+        try {
+            source = await locateSource(job);
+            break;
+        } catch (error) {
+            console.warn(`Could not re-check the source of job ${job.id}, retrying:`, error instanceof Error ? error.message : error);
+            await sleep(CONFIG.TX_POLL_INTERVAL_MS);
+        }
+    }
+    job = getJob(job.id) ?? job;
+    if (source.status === 'canonical') return;
+    if (source.status === 'moved') {
+        console.log(`Contribution for job ${job.id} moved to block ${source.blockNumber} by a reorg`);
+        updateJob(job.id, { blockNumber: source.blockNumber, blockHash: source.blockHash });
+        return;
+    }
+
+    if (job.state === 'confirmed') {
+        // confirmSwap could only have succeeded against the contribution, so it is almost certainly reorged out too
+        raiseAlert({
+            key: `orphaned-confirmed:${job.id}`,
+            severity: 'critical',
+            title: 'Confirmed contribution reorged out',
+            message: `Source tx ${job.sourceTx} of confirmed job ${job.id} is no longer on-chain; check confirmSwap ${job.confirmHash}`,
+            fields: { strategy: job.strategy, contributor: job.contributor }
+        });
+        return;
+    }
+    if (!isTerminal(job.state)) orphanJob(job);
+}
+
+/**
+ * The same contribution was seen again at another block (re-mined after a
+ * reorg). Point the job at it and, if it had been orphaned, resume it.
+ */
+export function reanchorJob(job: Job, blockNumber: bigint, blockHash: `0x${string}`) {
+    console.log(`Job ${job.id} source seen again in block ${blockNumber}`);
+    if (job.state !== 'orphaned') {
+        updateJob(job.id, { blockNumber, blockHash });
+        return;
+    }
+
+    updateJob(job.id, {
+        blockNumber,
+        blockHash,
+        state: job.orphanedAt ?? 'pending',
+        orphanedAt: undefined,
+        strandedTokens: undefined,
+        error: undefined
+    });
+    processJob(job.id);
+}
+
+/**
+ * Tokens a job had bought before its source vanished, and where they are now.
+ * A batched member's share is only known at allocation; until then allocateBatch
+ * records it.
+ */
+export function strandedTokensOf(job: Job): StrandedTokens | undefined {
+    if ((job.batchId && !job.allocation) || !job.token) return undefined;
+
+    const amount = job.tokensReceived
+        ?? job.slices?.reduce((sum, slice) => sum + (slice.tokensReceived ?? 0n), 0n)
+        ?? 0n;
+    if (amount === 0n) return undefined;
+
+    return { token: job.token, amount, holder: job.state === 'deposited' ? 'strategy' : 'operator' };
+}
+
+/**
+ * Stop work on a job whose contribution no longer exists. Nothing is undone
+ * on-chain: tokens already bought stay where they are, recorded on the job as
+ * `strandedTokens` for the admin to account for, since confirmSwap can no
+ * longer credit the ETH back.
+ */
+function orphanJob(job: Job): Job {
+    let batch = job.batchId ? getBatch(job.batchId) : undefined;
+    // Its ETH must not be swapped with the rest; once the batch swapped, its share is settled at allocation
+    if (batch && !batch.swapHash) {
+        removeFromBatch(batch.id, job.id);
+        batch = undefined;
+    }
+    const spent = !!job.swapHash || !!job.slices?.some(slice => slice.swapHash) || !!batch?.swapHash;
+    const strandedTokens = strandedTokensOf(job);
+
+    const orphaned = updateJob(job.id, {
+        state: 'orphaned',
+        orphanedAt: job.state,
+        strandedTokens,
+        batchId: batch?.id,
+        error: `Source tx ${job.sourceTx} was reorged out`
+    });
+
+    const where = strandedTokens
+        ? `${strandedTokens.amount} of ${strandedTokens.token} stay in the ${strandedTokens.holder === 'operator' ? 'operator wallet' : 'strategy, unconfirmed'}`
+        : 'its share of the batch is recorded when the batch allocates';
+    raiseAlert({
+        key: `orphaned:${job.id}`,
+        severity: spent ? 'critical' : 'info',
+        title: 'Contribution reorged out',
+        message: spent
+            ? `Job ${job.id} had already swapped (${job.state}); ${where}, and its ETH is not refunded`
+            : `Job ${job.id} dropped before any ETH was spent`,
+        fields: { strategy: job.strategy, contributor: job.contributor, ...(batch && { batch: batch.id }) }
+    });
+    return orphaned;
+}
@@ -0,0 +1,141 @@
+import { BaseError, MethodNotFoundRpcError, MethodNotSupportedRpcError, encodeFunctionData } from 'viem';
+import { publicClient, account } from '../config';
+import { XStrategyABI, ERC20ABI } from '../abis';
+import { buildQuote, strategyToken, tokensReceivedFrom } from './chainService';
+import { planSlices } from './twapService';
+import { isBatchable } from './batchService';
+import { Job, JobQuote } from '../store/jobStore';
+import { DryRunReport, SimulatedStep, StepResult, saveReport } from '../store/reportStore';
+
+type Call = { to: `0x${string}`; data: `0x${string}`; value?: bigint };
+
+/**
+ * Dry-run a job: plan and quote it the way processJob would, then simulate
+ * swap -> approve -> receiveTokens -> confirmSwap against current chain state
+ * without broadcasting anything.
+ * The calls run chained in one simulated block (eth_simulateV1), so later steps
+ * see the tokens and allowance produced by earlier ones. A TWAP job's slices run
+ * back to back there rather than TWAP_SLICE_INTERVAL_MS apart, so later slices
+ * see the earlier ones' impact without the pool recovering. A batchable job is
+ * simulated as a batch of one: the other members are not known yet, and its
+ * share of a larger batch settles the same way.
+ */
+export async function simulateJob(job: Job): Promise<DryRunReport> {
+    const report: DryRunReport = {
+        jobId: job.id,
+        strategy: job.strategy,
+        contributor: job.contributor,
+        ethAmount: job.ethAmount,
+        steps: [],
+        wouldSucceed: false,
+        simulatedAt: Date.now()
+    };
+
+    try {
+        const token = await strategyToken(job);
+        const batched = isBatchable(job);
+        const slices = batched ? undefined : await planSlices(token, job.ethAmount);
+        report.plan = batched ? 'batch' : slices ? 'twap' : 'single';
+        report.slices = slices;
+
+        const quotes: JobQuote[] = [];
+        for (const ethAmount of slices ?? [job.ethAmount]) {
+            quotes.push((await buildQuote(job, ethAmount)).quote);
+        }
+        const minExpected = quotes.reduce((sum, quote) => sum + quote.minExpected, 0n);
+        Object.assign(report, {
+            token,
+            provider: quotes[0].provider,
+            candidates: quotes[0].candidates,
+            slippageBps: quotes[0].slippageBps,
+            quotedBuyAmount: quotes.reduce((sum, quote) => sum + quote.buyAmount, 0n),
+            minExpected
+        });
+
+        const swaps: Call[] = quotes.map(quote => ({ to: quote.to, data: quote.data, value: quote.value }));
+        const sliceOf = (i: number) => (slices && i < swaps.length ? i + 1 : undefined);
+
+        // Pass 1: the swaps alone, to learn how many tokens they would yield
+        const swapResults = await simulate(swaps);
+        report.steps = swapResults.map((result, i) => toStepResult('swap', result, sliceOf(i)));
+        if (swapResults.some(result => result.status !== 'success')) throw new Error('Swap simulation reverted');
+
+        const tokensReceived = swapResults.reduce(
+            (sum, result) => sum + tokensReceivedFrom({ logs: result.logs ?? [] }, token),
+            0n
+        );
+        report.tokensReceived = tokensReceived;
+        if (tokensReceived <= 0n) throw new Error('Simulated swap yielded 0 tokens');
+
+        // Pass 2: the full sequence using the simulated output
+        const steps: [SimulatedStep, Call][] = [
+            ...swaps.map((swap): [SimulatedStep, Call] => ['swap', swap]),
+            ['approve', {
+                to: token,
+                data: encodeFunctionData({ abi: ERC20ABI, functionName: 'approve', args: [job.strategy, tokensReceived] })
+            }],
+            ['receiveTokens', {
+                to: job.strategy,
+                data: encodeFunctionData({ abi: XStrategyABI, functionName: 'receiveTokens', args: [tokensReceived] })
+            }],
+            ['confirmSwap', {
+                to: job.strategy,
+                data: encodeFunctionData({
+                    abi: XStrategyABI,
+                    functionName: 'confirmSwap',
+                    args: [job.contributor, job.ethAmount, tokensReceived, minExpected]
+                })
+            }]
+        ];
+        const results = await simulate(steps.map(([, call]) => call));
+        report.steps = results.map((result, i) => toStepResult(steps[i][0], result, sliceOf(i)));
+        report.wouldSucceed = report.steps.every(step => step.ok);
+    } catch (error) {
+        report.error = error instanceof Error ? error.message : String(error);
+    }
+
+    report.blockNumber = await publicClient.getBlockNumber().catch(() => undefined);
+    saveReport(report);
+    console.log(`[DRY RUN] ${JSON.stringify({
+        jobId: report.jobId,
+        wouldSucceed: report.wouldSucceed,
+        plan: report.plan,
+        provider: report.provider,
+        tokensReceived: report.tokensReceived?.toString(),
+        minExpected: report.minExpected?.toString(),
+        failedStep: report.steps.find(step => !step.ok)?.step,
+        error: report.error
+    })}`);
+    return report;
+}
+
+/**
+ * Fail at startup rather than on the first contribution when the RPC cannot
+ * simulate. Per-call eth_call is no substitute: approve and receiveTokens only
+ * succeed against the state the swap before them leaves behind.
+ */
+export async function assertSimulationSupported() {
+    try {
+        await simulate([{ to: account.address, data: '0x' }]);
+    } catch (error) {
+        const unsupported = error instanceof BaseError
+            && !!error.walk(cause => cause instanceof MethodNotFoundRpcError || cause instanceof MethodNotSupportedRpcError);
+        if (unsupported) throw new Error('DRY_RUN needs an RPC that supports eth_simulateV1, and the configured RPC_URL does not');
+        throw error;
+    }
+}
+
+async function simulate(calls: Call[]) {
+    const { results } = await publicClient.simulateCalls({ account: account.address, calls });
+    return results;
+}
+
+function toStepResult(step: SimulatedStep, result: { status: string; gasUsed: bigint; error?: Error }, slice?: number): StepResult {
+    return {
+        step,
+        slice,
+        ok: result.status === 'success',
+        gasUsed: result.gasUsed,
+        error: result.error?.message
+    };
+}
@@ -0,0 +1,60 @@
+import fs from 'fs';
+import { publicClient, CONFIG } from '../config';
+import { XStrategyABI } from '../abis';
+
+/**
+ * Per-strategy entry in the metadata registry file (STRATEGY_POLICY_PATH).
+ * Mirrors `Strategy.automation.slippageLimit` in the frontend: a percentage, e.g. 5 for 5%.
+ */
+interface StrategyPolicy {
+    slippageLimit?: number;
+}
+
+function loadRegistry(): Record<string, StrategyPolicy> {
+    if (!CONFIG.STRATEGY_POLICY_PATH || !fs.existsSync(CONFIG.STRATEGY_POLICY_PATH)) return {};
+
+    const raw = JSON.parse(fs.readFileSync(CONFIG.STRATEGY_POLICY_PATH, 'utf8')) as Record<string, StrategyPolicy>;
+    return Object.fromEntries(Object.entries(raw).map(([address, policy]) => [address.toLowerCase(), policy]));
+}
+
+const registry = loadRegistry();
+
+// On-chain ceilings never change for a deployed strategy, so read them once
+const onChainCeilings = new Map<string, number | undefined>();
+
+async function onChainSlippageBps(strategy: `0x${string}`): Promise<number | undefined> {
+    const key = strategy.toLowerCase();
+    if (!onChainCeilings.has(key)) {
+        try {
+            const bps = await publicClient.readContract({
+                address: strategy,
+                abi: XStrategyABI,
+                functionName: 'SLIPPAGE_BPS'
+            });
+            onChainCeilings.set(key, Number(bps));
+        } catch {
+            onChainCeilings.set(key, undefined); // Older deployments may not expose it
+        }
+    }
+    return onChainCeilings.get(key);
+}
+
+/**
+ * Max slippage (bps) the operator will accept for a strategy's swaps.
+ * The registry can tighten the strategy's on-chain SLIPPAGE_BPS but never loosen it;
+ * without either, DEFAULT_SLIPPAGE_BPS applies.
+ */
+export async function getSlippageBps(strategy: `0x${string}`): Promise<number> {
+    return resolveSlippageBps(registry[strategy.toLowerCase()]?.slippageLimit, await onChainSlippageBps(strategy));
+}
+
+/**
+ * @param limit Registry slippageLimit, in percent
+ * @param ceiling On-chain SLIPPAGE_BPS
+ */
+export function resolveSlippageBps(limit: number | undefined, ceiling: number | undefined): number {
+    const configured = limit !== undefined ? Math.round(limit * 100) : undefined;
+
+    if (configured !== undefined && ceiling !== undefined) return Math.min(configured, ceiling);
+    return configured ?? ceiling ?? CONFIG.DEFAULT_SLIPPAGE_BPS;
+}
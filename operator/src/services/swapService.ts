@@ -1,40 +1,132 @@
-import { CONFIG, account } from '../config';
-
-interface Quote {
-    buyAmount: bigint;
-    data: `0x${string}`;
-    to: `0x${string}`;
-    grossBuyAmount: bigint;
-    sellAmount: bigint;
+import { CONFIG, account, publicClient } from '../config';
+import { createSwapProvider, Quote } from './providers';
+
+const providers = CONFIG.SWAP_PROVIDERS.map(createSwapProvider);
+
+// Assumed when a source does not report a gas estimate
+const DEFAULT_SWAP_GAS = 250_000n;
+
+export interface RouteCandidate {
+    provider: string;
+    buyAmount?: bigint;
+    netBuyAmount?: bigint; // buyAmount minus the swap's gas cost, priced in tokens
+    estimatedGas?: bigint;
+    priceImpactBps?: number;
+    error?: string;
+    selected: boolean;
+}
+
+export type UnfillableReason = 'slippage' | 'no-quote' | 'dust'; // dust: a batch share too small to confirm
+
+/**
+ * The contribution cannot be filled within policy. The operator leaves it
+ * pending so the contributor is refunded through the pending-timeout path.
+ */
+export class UnfillableError extends Error {
+    constructor(readonly reason: UnfillableReason, message: string) {
+        super(message);
+        this.name = 'UnfillableError';
+    }
 }
 
-export async function getQuote(buyToken: string, sellAmount: bigint): Promise<Quote> {
-    if (!CONFIG.ZERO_EX_API_KEY) throw new Error('ZERO_EX_API_KEY required for mainnet/testnet');
+export interface BestQuote {
+    quote: Quote;
+    netBuyAmount: bigint;
+    candidates: RouteCandidate[]; // Every source asked, including failures, for later analysis
+}
 
-    const params = new URLSearchParams({
+/**
+ * Ask every configured source in parallel and pick the highest net-of-gas output.
+ * Quotes whose estimated price impact exceeds `slippageBps`, or that carry no estimate,
+ * are recorded but never chosen.
+ */
+export async function getBestQuote(
+    buyToken: `0x${string}`,
+    sellAmount: bigint,
+    slippageBps: number
+): Promise<BestQuote> {
+    const [gasPrice, results] = await Promise.all([
+        publicClient.getGasPrice(),
+        Promise.allSettled(providers.map(provider => provider.getQuote({
+            buyToken,
+            sellAmount,
+            taker: account.address,
+            slippageBps
+        })))
+    ]);
+
+    return selectRoute(
         buyToken,
-        sellToken: 'ETH',
-        sellAmount: sellAmount.toString(),
-        takerAddress: account.address
-    });
+        results.map((result, i) => ({ provider: providers[i].name, result })),
+        gasPrice,
+        slippageBps
+    );
+}
+
+/**
+ * The selection half of getBestQuote: price each source's gas in tokens at its
+ * own rate and pick the highest net output within `slippageBps`.
+ */
+export function selectRoute(
+    buyToken: `0x${string}`,
+    results: { provider: string; result: PromiseSettledResult<Quote> }[],
+    gasPrice: bigint,
+    slippageBps: number
+): BestQuote {
+    const candidates: RouteCandidate[] = [];
+    let best: { quote: Quote; netBuyAmount: bigint; candidate: RouteCandidate } | undefined;
+
+    results.forEach(({ provider, result }) => {
+        if (result.status === 'rejected') {
+            candidates.push({
+                provider,
+                error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+                selected: false
+            });
+            return;
+        }
+
+        const quote = result.value;
+        const estimatedGas = quote.estimatedGas ?? DEFAULT_SWAP_GAS;
+        const gasInTokens = quote.sellAmount > 0n
+            ? (estimatedGas * gasPrice * quote.buyAmount) / quote.sellAmount
+            : 0n;
+        const netBuyAmount = quote.buyAmount - gasInTokens;
 
-    const response = await fetch(`https://api.0x.org/swap/v1/quote?${params.toString()}`, {
-        headers: {
-            '0x-api-key': CONFIG.ZERO_EX_API_KEY
+        const candidate: RouteCandidate = {
+            provider: quote.provider,
+            buyAmount: quote.buyAmount,
+            netBuyAmount,
+            estimatedGas,
+            priceImpactBps: quote.priceImpactBps,
+            selected: false
+        };
+        candidates.push(candidate);
+
+        // Fail closed: a source that cannot estimate its impact could be filling into an empty pool
+        if (quote.priceImpactBps === undefined) {
+            candidate.error = 'No price impact estimate';
+            return;
+        }
+        if (quote.priceImpactBps > slippageBps) {
+            candidate.error = `Price impact ${quote.priceImpactBps} bps exceeds policy ${slippageBps} bps`;
+            return;
+        }
+
+        if (!best || netBuyAmount > best.netBuyAmount) {
+            best = { quote, netBuyAmount, candidate };
         }
     });
 
-    if (!response.ok) {
-        throw new Error(`0x API Error: ${response.statusText}`);
+    if (!best) {
+        const summary = candidates.map(c => `${c.provider}: ${c.error}`).join('; ');
+        const breached = candidates.some(c => c.buyAmount !== undefined);
+        throw new UnfillableError(
+            breached ? 'slippage' : 'no-quote',
+            `No quote within policy for ${buyToken}: ${summary}`
+        );
     }
 
-    const data = await response.json();
-
-    return {
-        buyAmount: BigInt(data.buyAmount),
-        data: data.data as `0x${string}`,
-        to: data.to as `0x${string}`,
-        grossBuyAmount: BigInt(data.grossBuyAmount),
-        sellAmount: BigInt(data.sellAmount)
-    };
+    best.candidate.selected = true;
+    return { quote: best.quote, netBuyAmount: best.netBuyAmount, candidates };
 }
@@ -0,0 +1,216 @@
+import { encodeFunctionData } from 'viem';
+import { publicClient, CONFIG } from '../config';
+import { XStrategyFactoryABI, XStrategyABI, ContractStatus } from '../abis';
+import { sendTransaction, waitForTransaction } from './txManager';
+import { Job, listJobs, updateJob } from '../store/jobStore';
+import { getBatch } from '../store/batchStore';
+
+/**
+ * Periodically refund contributions the operator gave up on, through the
+ * factory's refundPendingBatch, once PENDING_CONTRIBUTION_TIMEOUT has elapsed.
+ * Contributors no longer have to call refundPendingContribution themselves.
+ */
+export function startSweeper() {
+    console.log(`Refund sweeper running every ${CONFIG.SWEEP_INTERVAL_MS}ms`);
+
+    let running = false;
+    const tick = async () => {
+        if (running) return;
+        running = true;
+        try {
+            await runSweepPass();
+        } catch (error) {
+            console.error('Sweep pass failed:', error);
+        } finally {
+            running = false;
+        }
+    };
+
+    tick();
+    setInterval(tick, CONFIG.SWEEP_INTERVAL_MS);
+}
+
+/**
+ * Whether ETH has gone into a swap for the job: its own, one of its slices, or its batch's.
+ */
+export function hasSwapped(job: Job) {
+    return job.tokensReceived !== undefined
+        || !!job.swapHash
+        || !!job.slices?.some(slice => slice.swapHash)
+        || !!(job.batchId && getBatch(job.batchId)?.swapHash);
+}
+
+/**
+ * A job the operator deliberately refused (an UnfillableError) before spending
+ * its ETH. Other failures, such as an RPC error while quoting, wait for a retry.
+ */
+export function isUnfilled(job: Job) {
+    return job.state === 'failed' && job.unfillable !== undefined && !hasSwapped(job);
+}
+
+/**
+ * Failed after its swap: the tokens bought for it sit in the operator wallet
+ * until an admin retries or abandons it.
+ */
+export function failedAfterSwap(job: Job) {
+    return job.state === 'failed' && hasSwapped(job);
+}
+
+const SETTLED_STATES: Job['state'][] = ['confirmed', 'refunded', 'abandoned', 'orphaned'];
+const EXECUTING_STATES: Job['state'][] = ['quoted', 'swapped', 'approved', 'deposited'];
+
+/**
+ * A job the operator is executing or has spent ETH on. Refunding its contributor
+ * would strand the tokens bought for them and make confirmSwap revert.
+ * Pending and unswapped failed jobs only block once their own contribution
+ * has timed out, which sweepStrategy checks on-chain.
+ */
+export function blocksRefund(job: Job) {
+    if (SETTLED_STATES.includes(job.state)) return false;
+    return EXECUTING_STATES.includes(job.state) || hasSwapped(job);
+}
+
+export async function runSweepPass() {
+    // Jobs may spell the same strategy in different cases; one entry per strategy
+    const key = (strategy: `0x${string}`) => strategy.toLowerCase() as `0x${string}`;
+
+    const unfilled = new Set(listJobs(isUnfilled).map(job => key(job.strategy)));
+    if (unfilled.size === 0) return;
+
+    // A batch refund walks every timed-out contributor on the strategy, including
+    // those whose jobs are executing or hold swapped tokens; leave such strategies alone
+    for (const job of listJobs(blocksRefund)) unfilled.delete(key(job.strategy));
+
+    const now = (await publicClient.getBlock()).timestamp;
+    for (const strategy of unfilled) {
+        const open = listJobs(job => key(job.strategy) === strategy && !SETTLED_STATES.includes(job.state));
+        try {
+            await sweepStrategy(strategy, open, now);
+        } catch (error) {
+            console.error(`Sweep failed on ${strategy}:`, error);
+        }
+    }
+}
+
+/**
+ * @param jobs The strategy's unsettled jobs, none of them executing or swapped
+ */
+async function sweepStrategy(strategy: `0x${string}`, jobs: Job[], now: bigint) {
+    const timeout = await publicClient.readContract({
+        address: strategy,
+        abi: XStrategyABI,
+        functionName: 'PENDING_CONTRIBUTION_TIMEOUT'
+    });
+
+    const due: Job[] = [];
+    for (const job of jobs) {
+        const [pending, since] = await Promise.all([
+            publicClient.readContract({ address: strategy, abi: XStrategyABI, functionName: 'pendingContributions', args: [job.contributor] }),
+            publicClient.readContract({ address: strategy, abi: XStrategyABI, functionName: 'pendingTimestamp', args: [job.contributor] })
+        ]);
+        const timedOut = pending > 0n && now >= since + timeout;
+
+        if (!isUnfilled(job)) {
+            // The batch would refund a contribution the operator still means to fill (or retry)
+            if (timedOut) {
+                console.warn(`Not sweeping ${strategy}: job ${job.id} (${job.state}) has timed out unfilled; process, retry or abandon it`);
+                return;
+            }
+        } else if (pending === 0n) {
+            // Contributor already rescued themselves (or an earlier sweep covered them)
+            updateJob(job.id, { state: 'refunded' });
+        } else if (timedOut) {
+            due.push(job);
+        }
+    }
+    if (due.length === 0) return;
+
+    // The batch walks the whole pending set; the contract skips anyone not yet timed out
+    const pendingContributors = await publicClient.readContract({
+        address: strategy,
+        abi: XStrategyABI,
+        functionName: 'getPendingContributors'
+    });
+
+    if (CONFIG.DRY_RUN) {
+        console.log(`[DRY RUN] Would refund ${due.length} unfilled contributions on ${strategy}`);
+        return;
+    }
+
+    console.log(`Sweeping ${due.length} unfilled contributions on ${strategy}`);
+    const hash = await sendTransaction({
+        to: CONFIG.FACTORY_ADDRESS,
+        data: encodeFunctionData({
+            abi: XStrategyFactoryABI,
+            functionName: 'refundPendingBatch',
+            args: [strategy, 0n, BigInt(pendingContributors.length)]
+        })
+    });
+    const receipt = await waitForTransaction(hash);
+    if (receipt.status !== 'success') throw new Error(`Refund batch ${receipt.transactionHash} reverted`);
+
+    for (const job of due) {
+        updateJob(job.id, { state: 'refunded', refundHash: receipt.transactionHash });
+    }
+    console.log(`Refunded ${due.length} contributions on ${strategy}: ${receipt.transactionHash}`);
+}
+
+/**
+ * Refund one contributor's pending ETH now, through a refundPendingBatch of
+ * size one at their index in the pending set. While the strategy is live the
+ * contract only refunds timed-out contributions, and would move on to the
+ * next contributor otherwise, so that is checked first.
+ */
+export async function refundContributor(strategy: `0x${string}`, contributor: `0x${string}`): Promise<`0x${string}` | undefined> {
+    const [pending, since, timeout, status, pendingContributors, block] = await Promise.all([
+        publicClient.readContract({ address: strategy, abi: XStrategyABI, functionName: 'pendingContributions', args: [contributor] }),
+        publicClient.readContract({ address: strategy, abi: XStrategyABI, functionName: 'pendingTimestamp', args: [contributor] }),
+        publicClient.readContract({ address: strategy, abi: XStrategyABI, functionName: 'PENDING_CONTRIBUTION_TIMEOUT' }),
+        publicClient.readContract({ address: strategy, abi: XStrategyABI, functionName: 'status' }),
+        publicClient.readContract({ address: strategy, abi: XStrategyABI, functionName: 'getPendingContributors' }),
+        publicClient.getBlock()
+    ]);
+    if (pending === 0n) throw new Error(`${contributor} has no pending contribution on ${strategy}`);
+
+    const live = status === ContractStatus.ACTIVE || status === ContractStatus.PENDING_CREATOR;
+    if (live && block.timestamp < since + timeout) {
+        throw new Error(`Contribution from ${contributor} is refundable from ${new Date(Number(since + timeout) * 1000).toISOString()}`);
+    }
+
+    // Refunding under a swapped job would leave its confirmSwap with nothing to settle
+    const jobs = listJobs(job => job.strategy.toLowerCase() === strategy.toLowerCase()
+        && job.contributor.toLowerCase() === contributor.toLowerCase());
+    const executing = jobs.find(blocksRefund);
+    if (executing) {
+        const detail = executing.state === 'failed' ? 'failed after swapping; retry it'
+            : executing.state === 'pending' ? 'in a batch that swapped; retry the batch'
+            : `${executing.state}; abandon it`;
+        throw new Error(`Job ${executing.id} is ${detail} before refunding`);
+    }
+
+    const index = pendingContributors.findIndex(address => address.toLowerCase() === contributor.toLowerCase());
+    if (index === -1) throw new Error(`${contributor} is not in the pending set of ${strategy}`);
+
+    if (CONFIG.DRY_RUN) {
+        console.log(`[DRY RUN] Would refund ${contributor} on ${strategy}`);
+        return undefined;
+    }
+
+    const hash = await sendTransaction({
+        to: CONFIG.FACTORY_ADDRESS,
+        data: encodeFunctionData({
+            abi: XStrategyFactoryABI,
+            functionName: 'refundPendingBatch',
+            args: [strategy, BigInt(index), 1n]
+        })
+    });
+    const receipt = await waitForTransaction(hash);
+    if (receipt.status !== 'success') throw new Error(`Refund ${receipt.transactionHash} reverted`);
+
+    for (const job of jobs) {
+        if (!SETTLED_STATES.includes(job.state)) {
+            updateJob(job.id, { state: 'refunded', refundHash: receipt.transactionHash });
+        }
+    }
+    return receipt.transactionHash;
+}
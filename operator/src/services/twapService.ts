@@ -0,0 +1,47 @@
+import { CONFIG } from '../config';
+import { getBestQuote } from './swapService';
+
+// Quotes taken only to measure impact must not be filtered out by it. At 100%
+// slippage the quote's calldata carries a 0 minimum output, so it is read for
+// its impact estimate and never executed; swaps always re-quote under policy.
+const NO_IMPACT_LIMIT_BPS = 10000;
+
+/**
+ * Price impact of selling `ethAmount` for `token` in one go, in bps, as
+ * estimated by the best source. getBestQuote never picks a quote without an
+ * estimate, so one is always present.
+ */
+export async function estimateImpactBps(token: `0x${string}`, ethAmount: bigint): Promise<number> {
+    const { quote } = await getBestQuote(token, ethAmount, NO_IMPACT_LIMIT_BPS);
+    return quote.priceImpactBps!;
+}
+
+/**
+ * Split a contribution into equal slices when swapping it at once would move
+ * the pool more than TWAP_IMPACT_THRESHOLD_BPS. Impact grows roughly linearly
+ * with size, so the slice count is chosen to bring each slice under the threshold.
+ * @returns ETH amount per slice, or undefined to swap in one shot
+ */
+export async function planSlices(token: `0x${string}`, ethAmount: bigint): Promise<bigint[] | undefined> {
+    if (CONFIG.TWAP_MAX_SLICES <= 1 || ethAmount < CONFIG.TWAP_MIN_ETH_WEI) return undefined;
+
+    const impactBps = await estimateImpactBps(token, ethAmount);
+    const slices = sliceAmounts(ethAmount, impactBps);
+    if (slices) {
+        console.log(`Impact ${impactBps} bps on ${ethAmount} wei exceeds ${CONFIG.TWAP_IMPACT_THRESHOLD_BPS} bps; splitting into ${slices.length} slices`);
+    }
+    return slices;
+}
+
+/**
+ * The sizing half of planSlices, given the one-shot impact.
+ */
+export function sliceAmounts(ethAmount: bigint, impactBps: number): bigint[] | undefined {
+    if (impactBps <= CONFIG.TWAP_IMPACT_THRESHOLD_BPS) return undefined;
+
+    const count = Math.min(CONFIG.TWAP_MAX_SLICES, Math.ceil(impactBps / CONFIG.TWAP_IMPACT_THRESHOLD_BPS));
+
+    // Equal slices, the last absorbing the rounding remainder
+    const size = ethAmount / BigInt(count);
+    return Array.from({ length: count }, (_, i) => (i === count - 1 ? ethAmount - size * BigInt(count - 1) : size));
+}
@@ -0,0 +1,234 @@
+import { TransactionNotFoundError, TransactionReceipt } from 'viem';
+import { publicClient, walletClient, account, CONFIG } from '../config';
+
+export interface TxRequest {
+    to: `0x${string}`;
+    data?: `0x${string}`;
+    value?: bigint;
+}
+
+interface TrackedTx {
+    nonce: number;
+    request: TxRequest;
+    gas: bigint;
+    maxFeePerGas: bigint;
+    maxPriorityFeePerGas: bigint;
+    hashes: `0x${string}`[]; // Original first, then each replacement
+    lastBroadcastAt: number;
+    bumps: number;
+    cancelled: boolean;
+}
+
+/**
+ * The tx is unknown to the node and has no receipt, e.g. it was dropped from
+ * the mempool while the operator was down. Safe to broadcast again.
+ */
+export class DroppedTransactionError extends Error {
+    constructor(readonly hash: `0x${string}`) {
+        super(`Transaction ${hash} is unknown to the node`);
+        this.name = 'DroppedTransactionError';
+    }
+}
+
+const CANCEL_GAS = 21_000n;
+
+// Next nonce to hand out; undefined means resync from the node
+let nextNonce: number | undefined;
+const tracked = new Map<number, TrackedTx>();
+
+// Serialises nonce allocation + broadcast so nonces are used in order without gaps
+let nonceLock: Promise<unknown> = Promise.resolve();
+
+function withNonceLock<T>(fn: () => Promise<T>): Promise<T> {
+    const run = nonceLock.then(fn, fn);
+    nonceLock = run.catch(() => undefined);
+    return run;
+}
+
+function sleep(ms: number) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function bump(fee: bigint) {
+    return (fee * BigInt(100 + CONFIG.TX_GAS_BUMP_PERCENT)) / 100n;
+}
+
+function maxBigInt(a: bigint, b: bigint) {
+    return a > b ? a : b;
+}
+
+/**
+ * Broadcast a transaction from the operator wallet with a locally managed nonce.
+ * The nonce is only consumed once the node accepts the tx; failures before
+ * broadcast leave it free for the next caller.
+ */
+export function sendTransaction(request: TxRequest): Promise<`0x${string}`> {
+    // Last line of defence; callers are expected to branch on DRY_RUN themselves
+    if (CONFIG.DRY_RUN) return Promise.reject(new Error(`Dry run: refusing to broadcast tx to ${request.to}`));
+
+    return withNonceLock(async () => {
+        if (nextNonce === undefined) {
+            nextNonce = await publicClient.getTransactionCount({ address: account.address, blockTag: 'pending' });
+        }
+        const nonce = nextNonce;
+
+        try {
+            const [gas, fees] = await Promise.all([
+                publicClient.estimateGas({ account, ...request }),
+                publicClient.estimateFeesPerGas()
+            ]);
+
+            const hash = await walletClient.sendTransaction({
+                ...request,
+                nonce,
+                gas,
+                maxFeePerGas: fees.maxFeePerGas,
+                maxPriorityFeePerGas: fees.maxPriorityFeePerGas
+            });
+
+            tracked.set(nonce, {
+                nonce,
+                request,
+                gas,
+                maxFeePerGas: fees.maxFeePerGas,
+                maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+                hashes: [hash],
+                lastBroadcastAt: Date.now(),
+                bumps: 0,
+                cancelled: false
+            });
+            nextNonce = nonce + 1;
+            return hash;
+        } catch (error) {
+            // Our view of the nonce may be wrong (e.g. a tx sent outside this process)
+            if (error instanceof Error && /nonce/i.test(error.message)) nextNonce = undefined;
+            throw error;
+        }
+    });
+}
+
+/**
+ * Wait until any version of the tx (original or replacement) is mined.
+ * Re-broadcasts with bumped fees each time it sits unmined for TX_STUCK_TIMEOUT_MS.
+ * @param onReplaced Called with the new hash after every fee bump
+ */
+export async function waitForTransaction(
+    hash: `0x${string}`,
+    onReplaced?: (hash: `0x${string}`) => void
+): Promise<TransactionReceipt> {
+    const tx = await resolveTracked(hash);
+
+    while (true) {
+        // Read the mined nonce before receipts so a concurrent mining can't look like a foreign tx
+        const minedNonce = await publicClient.getTransactionCount({ address: account.address, blockTag: 'latest' });
+
+        for (const candidate of [...tx.hashes].reverse()) {
+            const receipt = await publicClient.getTransactionReceipt({ hash: candidate }).catch(() => undefined);
+            if (receipt) {
+                tracked.delete(tx.nonce);
+                if (tx.cancelled && candidate === tx.hashes[tx.hashes.length - 1]) {
+                    throw new Error(`Transaction at nonce ${tx.nonce} was cancelled (${candidate})`);
+                }
+                return receipt;
+            }
+        }
+
+        if (minedNonce > tx.nonce) {
+            tracked.delete(tx.nonce);
+            throw new Error(`Nonce ${tx.nonce} was consumed by another transaction (tracked: ${tx.hashes.join(', ')})`);
+        }
+
+        if (Date.now() - tx.lastBroadcastAt > CONFIG.TX_STUCK_TIMEOUT_MS) {
+            if (tx.bumps >= CONFIG.TX_MAX_GAS_BUMPS) {
+                throw new Error(`Transaction at nonce ${tx.nonce} still unmined after ${tx.bumps} gas bumps`);
+            }
+            try {
+                const replacement = await rebroadcast(tx, tx.request, tx.gas);
+                console.log(`Replaced stuck tx at nonce ${tx.nonce} with ${replacement} (bump ${tx.bumps})`);
+                onReplaced?.(replacement);
+            } catch (error) {
+                // Usually the original got mined meanwhile; the next poll will find its receipt
+                console.warn(`Gas bump for nonce ${tx.nonce} rejected:`, error instanceof Error ? error.message : error);
+            }
+        }
+
+        await sleep(CONFIG.TX_POLL_INTERVAL_MS);
+    }
+}
+
+/**
+ * Cancel a pending tx by replacing its nonce with a 0-value self-transfer.
+ * Whoever waits on it then fails with a cancellation error and takes its usual failure path.
+ * @returns Hash of the cancellation tx
+ */
+export async function cancelTransaction(hash: `0x${string}`): Promise<`0x${string}`> {
+    if (CONFIG.DRY_RUN) throw new Error(`Dry run: refusing to cancel ${hash}`);
+    const tx = await resolveTracked(hash);
+    if (tx.cancelled) throw new Error(`Transaction at nonce ${tx.nonce} is already being cancelled`);
+
+    const minedNonce = await publicClient.getTransactionCount({ address: account.address, blockTag: 'latest' });
+    if (minedNonce > tx.nonce) throw new Error(`Nonce ${tx.nonce} is already mined`);
+
+    const cancellation = await rebroadcast(tx, { to: account.address, value: 0n }, CANCEL_GAS);
+    tx.cancelled = true;
+    console.log(`Cancelling tx at nonce ${tx.nonce} with ${cancellation}`);
+    return cancellation;
+}
+
+/**
+ * Re-send a nonce with fees bumped enough for the node to accept it as a replacement.
+ */
+async function rebroadcast(tx: TrackedTx, request: TxRequest, gas: bigint): Promise<`0x${string}`> {
+    const current = await publicClient.estimateFeesPerGas();
+    const maxFeePerGas = maxBigInt(bump(tx.maxFeePerGas), current.maxFeePerGas);
+    const maxPriorityFeePerGas = maxBigInt(bump(tx.maxPriorityFeePerGas), current.maxPriorityFeePerGas);
+
+    const hash = await walletClient.sendTransaction({
+        ...request,
+        nonce: tx.nonce,
+        gas,
+        maxFeePerGas,
+        maxPriorityFeePerGas
+    });
+
+    tx.request = request;
+    tx.gas = gas;
+    tx.maxFeePerGas = maxFeePerGas;
+    tx.maxPriorityFeePerGas = maxPriorityFeePerGas;
+    tx.hashes.push(hash);
+    tx.lastBroadcastAt = Date.now();
+    tx.bumps++;
+    return hash;
+}
+
+/**
+ * Find the tracked tx for a hash, rebuilding it from the node for txs
+ * broadcast before a restart.
+ */
+async function resolveTracked(hash: `0x${string}`): Promise<TrackedTx> {
+    for (const tx of tracked.values()) {
+        if (tx.hashes.includes(hash)) return tx;
+    }
+
+    // Only a node that answers "not found" means dropped; an RPC failure says nothing about the tx
+    const onChain = await publicClient.getTransaction({ hash }).catch(error => {
+        if (error instanceof TransactionNotFoundError) return undefined;
+        throw error;
+    });
+    if (!onChain) throw new DroppedTransactionError(hash);
+
+    const tx: TrackedTx = {
+        nonce: onChain.nonce,
+        request: { to: onChain.to!, data: onChain.input, value: onChain.value },
+        gas: onChain.gas,
+        maxFeePerGas: onChain.maxFeePerGas ?? onChain.gasPrice ?? 0n,
+        maxPriorityFeePerGas: onChain.maxPriorityFeePerGas ?? onChain.gasPrice ?? 0n,
+        hashes: [hash],
+        // Unknown original broadcast time; start the stuck timer now
+        lastBroadcastAt: Date.now(),
+        bumps: 0,
+        cancelled: false
+    };
+    tracked.set(tx.nonce, tx);
+    return tx;
+}
@@ -0,0 +1,79 @@
+import { publicClient, CONFIG } from '../config';
+import { XStrategyFactoryABI, XStrategyABI } from '../abis';
+import { onContributionPending } from './eventService';
+import { advanceCheckpoint } from '../store/checkpointStore';
+import { allowDestination } from '../signer';
+import { raiseAlert } from './alerts';
+
+const activeWatchers = new Set<`0x${string}`>();
+
+export function listWatchedStrategies(): `0x${string}`[] {
+    return [...activeWatchers];
+}
+
+/**
+ * Watch the factory for StrategyCreated and start watching each new strategy.
+ */
+export function watchFactory(fromBlock: bigint) {
+    publicClient.watchContractEvent({
+        address: CONFIG.FACTORY_ADDRESS,
+        abi: XStrategyFactoryABI,
+        eventName: 'StrategyCreated',
+        fromBlock,
+        onLogs: logs => {
+            logs.forEach(log => {
+                const strategy = log.args.strategy;
+                if (strategy) {
+                    console.log(`New Strategy Detected: ${strategy}`);
+                    watchStrategy(strategy, log.blockNumber);
+                }
+                advanceCheckpoint(CONFIG.FACTORY_ADDRESS, log.blockNumber);
+            });
+        }
+    });
+}
+
+/**
+ * Alert when the factory owner pauses a strategy; contributions to it stop
+ * and pending ones will be refunded rather than filled.
+ */
+export function watchPauses(fromBlock: bigint) {
+    publicClient.watchContractEvent({
+        address: CONFIG.FACTORY_ADDRESS,
+        abi: XStrategyFactoryABI,
+        eventName: 'StrategyPaused',
+        fromBlock,
+        onLogs: logs => {
+            logs.forEach(log => raiseAlert({
+                key: `paused:${log.args.strategy}`,
+                severity: 'critical',
+                title: 'Strategy paused',
+                message: `Strategy ${log.args.strategy} was paused by the factory owner`,
+                fields: { strategy: log.args.strategy ?? 'unknown', tx: log.transactionHash }
+            }));
+        }
+    });
+}
+
+export function watchStrategy(address: `0x${string}`, fromBlock: bigint) {
+    if (activeWatchers.has(address)) return;
+    activeWatchers.add(address);
+    allowDestination(address);
+
+    console.log(`Watching strategy: ${address}`);
+
+    publicClient.watchContractEvent({
+        address,
+        abi: XStrategyABI,
+        eventName: 'ContributionPending',
+        fromBlock,
+        onLogs: logs => {
+            logs.forEach(log => {
+                console.log(`Event: ContributionPending on ${address}${log.removed ? ' (removed by reorg)' : ''}`);
+                onContributionPending(address, log).catch(error =>
+                    console.error(`Failed to handle ContributionPending on ${address}:`, error)
+                );
+            });
+        }
+    });
+}
@@ -0,0 +1,40 @@
+import { LocalAccount, TransactionSerializable, CustomSource } from 'viem';
+import { privateKeyToAccount, toAccount } from 'viem/accounts';
+import { createPolicyCheck, allowDestination, SignerPolicy } from './policy';
+import { createRemoteSigner } from './remote';
+
+export { allowDestination, PolicyViolationError } from './policy';
+export { assertRemoteSigner } from './remote';
+
+export type SignerType = 'local' | 'remote';
+
+export type SignerOptions =
+    | { type: 'local'; privateKey: `0x${string}`; policy: SignerPolicy }
+    | { type: 'remote'; url: string; address: `0x${string}`; authToken?: string; policy: SignerPolicy };
+
+/**
+ * The operator's account. Every transaction passes the policy check before it
+ * reaches the key, whether that key is in-process or behind a remote signer.
+ */
+export function createOperatorAccount(options: SignerOptions): LocalAccount {
+    const checkPolicy = createPolicyCheck(options.policy);
+
+    const source = options.type === 'local'
+        ? privateKeyToAccount(options.privateKey)
+        : { address: options.address, ...createRemoteSigner(options.url, options.address, options.authToken) };
+
+    // Self-transfers are how stuck txs get cancelled
+    allowDestination(source.address);
+
+    const signTransaction = (async (tx: TransactionSerializable) => {
+        checkPolicy(tx);
+        return source.signTransaction(tx);
+    }) as CustomSource['signTransaction'];
+
+    return toAccount({
+        address: source.address,
+        signMessage: source.signMessage,
+        signTransaction,
+        signTypedData: source.signTypedData as CustomSource['signTypedData']
+    });
+}
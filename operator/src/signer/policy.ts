@@ -0,0 +1,80 @@
+import path from 'path';
+import type { TransactionSerializable } from 'viem';
+import { JsonFileStore } from '../store/fileStore';
+
+export interface SignerPolicy {
+    maxTxValue?: bigint; // Per-tx cap on ETH sent, excluding gas
+    dailyLimit?: bigint; // Cap on value + max gas cost signed per UTC day
+    allowedTo?: `0x${string}`[]; // Static destinations; undefined allows any
+    dataDir: string; // Where the daily spend ledger is kept
+}
+
+/**
+ * The signer refused a transaction. Never retried automatically.
+ */
+export class PolicyViolationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PolicyViolationError';
+    }
+}
+
+interface DailySpend {
+    day: string; // UTC date, YYYY-MM-DD
+    byNonce: Record<string, bigint>; // Replacements re-sign a nonce; only its highest cost counts
+}
+
+// Strategies and their tokens, registered as the operator discovers them
+const dynamicDestinations = new Set<string>();
+
+export function allowDestination(address: `0x${string}`) {
+    dynamicDestinations.add(address.toLowerCase());
+}
+
+function today() {
+    return new Date().toISOString().slice(0, 10);
+}
+
+function maxCost(tx: TransactionSerializable): bigint {
+    const feePerGas = tx.maxFeePerGas ?? tx.gasPrice ?? 0n;
+    return (tx.value ?? 0n) + (tx.gas ?? 0n) * feePerGas;
+}
+
+/**
+ * Build the check run before every signature. Throws PolicyViolationError
+ * when the tx breaks the policy; otherwise records its cost against today's limit.
+ */
+export function createPolicyCheck(policy: SignerPolicy) {
+    const allowed = policy.allowedTo && new Set(policy.allowedTo.map(address => address.toLowerCase()));
+    let ledger: JsonFileStore<DailySpend> | undefined;
+
+    return (tx: TransactionSerializable) => {
+        if (!tx.to) throw new PolicyViolationError('Contract deployments are not allowed');
+
+        const to = tx.to.toLowerCase();
+        if (allowed && !allowed.has(to) && !dynamicDestinations.has(to)) {
+            throw new PolicyViolationError(`Destination ${tx.to} is not allowed`);
+        }
+
+        const value = tx.value ?? 0n;
+        if (policy.maxTxValue !== undefined && value > policy.maxTxValue) {
+            throw new PolicyViolationError(`Value ${value} exceeds per-tx limit ${policy.maxTxValue}`);
+        }
+
+        if (policy.dailyLimit === undefined) return;
+
+        ledger ??= new JsonFileStore<DailySpend>(path.join(policy.dataDir, 'signer-spend.json'));
+        const day = today();
+        const spend = ledger.get(day) ?? { day, byNonce: {} };
+        const nonce = String(tx.nonce ?? 'unknown');
+        const cost = maxCost(tx);
+        const previous = spend.byNonce[nonce] ?? 0n;
+        const total = Object.values(spend.byNonce).reduce((sum, amount) => sum + amount, 0n);
+        const next = total - previous + (cost > previous ? cost : previous);
+
+        if (next > policy.dailyLimit) {
+            throw new PolicyViolationError(`Daily limit ${policy.dailyLimit} would be exceeded (${next} wei)`);
+        }
+        if (cost > previous) ledger.set(day, { day, byNonce: { ...spend.byNonce, [nonce]: cost } });
+    };
+}
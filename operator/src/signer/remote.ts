@@ -0,0 +1,70 @@
+import { numberToHex, TransactionSerializable, SignableMessage, toHex } from 'viem';
+
+interface JsonRpcResponse<T> {
+    result?: T;
+    error?: { code: number; message: string };
+}
+
+let requestId = 0;
+
+async function call<T>(url: string, authToken: string | undefined, method: string, params: unknown[]): Promise<T> {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            ...(authToken && { Authorization: `Bearer ${authToken}` })
+        },
+        body: JSON.stringify({ jsonrpc: '2.0', id: ++requestId, method, params })
+    });
+
+    if (!response.ok) throw new Error(`Signer ${method} failed: HTTP ${response.status}`);
+
+    const { result, error } = await response.json() as JsonRpcResponse<T>;
+    if (error) throw new Error(`Signer ${method} rejected: ${error.message}`);
+    return result as T;
+}
+
+const hex = (value: bigint | number | undefined) => value === undefined ? undefined : numberToHex(value);
+
+/**
+ * Signing backed by an external signer speaking Ethereum JSON-RPC
+ * (`eth_signTransaction`, `personal_sign`, `eth_signTypedData_v4`), e.g. Web3Signer or Clef.
+ */
+export function createRemoteSigner(url: string, address: `0x${string}`, authToken?: string) {
+    return {
+        signTransaction(tx: TransactionSerializable) {
+            return call<`0x${string}`>(url, authToken, 'eth_signTransaction', [{
+                from: address,
+                to: tx.to,
+                data: tx.data,
+                value: hex(tx.value),
+                gas: hex(tx.gas),
+                nonce: hex(tx.nonce),
+                chainId: hex(tx.chainId),
+                maxFeePerGas: hex(tx.maxFeePerGas),
+                maxPriorityFeePerGas: hex(tx.maxPriorityFeePerGas),
+                gasPrice: hex(tx.gasPrice)
+            }]);
+        },
+
+        signMessage({ message }: { message: SignableMessage }) {
+            const data = typeof message === 'string' ? toHex(message) : message.raw;
+            return call<`0x${string}`>(url, authToken, 'personal_sign', [typeof data === 'string' ? data : toHex(data), address]);
+        },
+
+        signTypedData(typedData: unknown) {
+            const payload = JSON.stringify(typedData, (_key, value) => (typeof value === 'bigint' ? value.toString() : value));
+            return call<`0x${string}`>(url, authToken, 'eth_signTypedData_v4', [address, payload]);
+        }
+    };
+}
+
+/**
+ * Fail fast at startup when the signer is unreachable or holds a different key.
+ */
+export async function assertRemoteSigner(url: string, address: `0x${string}`, authToken?: string) {
+    const accounts = await call<string[]>(url, authToken, 'eth_accounts', []);
+    if (!accounts.some(candidate => candidate.toLowerCase() === address.toLowerCase())) {
+        throw new Error(`Signer at ${url} does not manage ${address} (has: ${accounts.join(', ') || 'none'})`);
+    }
+}
@@ -0,0 +1,127 @@
+import dotenv from 'dotenv';
+import http from 'http';
+import path from 'path';
+import { hexToBigInt, hexToNumber, TransactionSerializable } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { createPolicyCheck, PolicyViolationError } from './policy';
+
+/**
+ * Minimal JSON-RPC signer for local development and tests, standing in for a
+ * real remote signer (Web3Signer, Clef, an HSM gateway). It holds the key the
+ * operator no longer needs and applies its own policy independently of the operator's.
+ *
+ *   SIGNER_PRIVATE_KEY=0x... npm run signer:dev
+ *   SIGNER=remote SIGNER_URL=http://localhost:8551 SIGNER_ADDRESS=0x... npm run dev
+ */
+
+dotenv.config();
+
+if (!process.env.SIGNER_PRIVATE_KEY) throw new Error('SIGNER_PRIVATE_KEY is required');
+
+const account = privateKeyToAccount(process.env.SIGNER_PRIVATE_KEY as `0x${string}`);
+const port = Number(process.env.SIGNER_PORT || 8551);
+const authToken = process.env.SIGNER_AUTH_TOKEN;
+const allowedTo = (process.env.SIGNER_ALLOWED_TO || '').split(',').map(a => a.trim()).filter(Boolean) as `0x${string}`[];
+
+const checkPolicy = createPolicyCheck({
+    maxTxValue: process.env.SIGNER_MAX_TX_VALUE_WEI ? BigInt(process.env.SIGNER_MAX_TX_VALUE_WEI) : undefined,
+    dailyLimit: process.env.SIGNER_DAILY_LIMIT_WEI ? BigInt(process.env.SIGNER_DAILY_LIMIT_WEI) : undefined,
+    allowedTo: allowedTo.length > 0 ? allowedTo : undefined,
+    dataDir: path.join(process.env.DATA_DIR || './data', 'stand-in-signer')
+});
+
+interface RpcTransaction {
+    from?: string;
+    to?: `0x${string}`;
+    data?: `0x${string}`;
+    value?: `0x${string}`;
+    gas?: `0x${string}`;
+    nonce?: `0x${string}`;
+    chainId?: `0x${string}`;
+    maxFeePerGas?: `0x${string}`;
+    maxPriorityFeePerGas?: `0x${string}`;
+    gasPrice?: `0x${string}`;
+}
+
+function toSerializable(tx: RpcTransaction): TransactionSerializable {
+    if (!tx.chainId || !tx.nonce || !tx.gas) throw new Error('chainId, nonce and gas are required');
+
+    const common = {
+        to: tx.to,
+        data: tx.data,
+        value: tx.value ? hexToBigInt(tx.value) : 0n,
+        gas: hexToBigInt(tx.gas),
+        nonce: hexToNumber(tx.nonce),
+        chainId: hexToNumber(tx.chainId)
+    };
+    if (tx.maxFeePerGas) {
+        return {
+            ...common,
+            type: 'eip1559',
+            maxFeePerGas: hexToBigInt(tx.maxFeePerGas),
+            maxPriorityFeePerGas: tx.maxPriorityFeePerGas ? hexToBigInt(tx.maxPriorityFeePerGas) : 0n
+        };
+    }
+    return { ...common, type: 'legacy', gasPrice: tx.gasPrice ? hexToBigInt(tx.gasPrice) : undefined };
+}
+
+function assertSelf(address: unknown) {
+    if (typeof address !== 'string' || address.toLowerCase() !== account.address.toLowerCase()) {
+        throw new Error(`Unknown account ${address}`);
+    }
+}
+
+async function handle(method: string, params: unknown[]): Promise<unknown> {
+    switch (method) {
+        case 'eth_accounts':
+            return [account.address];
+        case 'eth_signTransaction': {
+            const tx = params[0] as RpcTransaction;
+            assertSelf(tx.from);
+            const serializable = toSerializable(tx);
+            checkPolicy(serializable);
+            return account.signTransaction(serializable);
+        }
+        case 'personal_sign':
+            assertSelf(params[1]);
+            return account.signMessage({ message: { raw: params[0] as `0x${string}` } });
+        case 'eth_signTypedData_v4':
+            assertSelf(params[0]);
+            return account.signTypedData(JSON.parse(params[1] as string));
+        default:
+            throw new Error(`Method not supported: ${method}`);
+    }
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let body = '';
+        req.on('data', chunk => (body += chunk));
+        req.on('end', () => resolve(body));
+        req.on('error', reject);
+    });
+}
+
+http.createServer(async (req, res) => {
+    res.setHeader('Content-Type', 'application/json');
+
+    if (authToken && req.headers.authorization !== `Bearer ${authToken}`) {
+        res.writeHead(401);
+        return res.end(JSON.stringify({ error: 'Unauthorized' }));
+    }
+
+    let id: unknown = null;
+    try {
+        const request = JSON.parse(await readBody(req));
+        id = request.id;
+        const result = await handle(request.method, request.params ?? []);
+        res.end(JSON.stringify({ jsonrpc: '2.0', id, result }));
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (error instanceof PolicyViolationError) console.warn(`Refused to sign: ${message}`);
+        // -32000 is the conventional "server error" code for rejected requests
+        res.end(JSON.stringify({ jsonrpc: '2.0', id, error: { code: -32000, message } }));
+    }
+}).listen(port, () => {
+    console.log(`Stand-in signer for ${account.address} listening on :${port}`);
+});
@@ -0,0 +1,94 @@
+import path from 'path';
+import { CONFIG } from '../config';
+import { JsonFileStore } from './fileStore';
+import type { JobQuote } from './jobStore';
+
+/**
+ * Lifecycle of a batch of small contributions swapped together. As with jobs,
+ * each state means that step has completed on-chain. 'allocated' hands the
+ * members back to the job pipeline at 'deposited' for their own confirmSwap.
+ */
+export const BATCH_STATES = [
+    'open', // Collecting members until closesAt
+    'closed', // No longer accepting members
+    'quoted',
+    'swapped',
+    'approved',
+    'deposited',
+    'allocated',
+    'dissolved', // Closed with a single member, which was processed on its own
+    'failed'
+] as const;
+
+export type BatchState = typeof BATCH_STATES[number];
+
+/**
+ * One member's pro-rata share: tokens = floor(tokensReceived * ethAmount / totalEth),
+ * minExpected = floor(batch minExpected * ethAmount / totalEth), at least 1. The
+ * rounding dust goes to the largest member and is recorded as `dust`. Members
+ * whose share of the quote's minimum would round to zero are excluded before the
+ * swap and fall back to the timeout refund.
+ */
+export interface BatchAllocation {
+    jobId: string;
+    contributor: `0x${string}`;
+    ethAmount: bigint;
+    tokens: bigint;
+    minExpected: bigint;
+    dust: bigint;
+}
+
+export interface Batch {
+    id: string;
+    state: BatchState;
+    strategy: `0x${string}`;
+    jobIds: string[];
+    ethAmount: bigint; // Sum over members
+    closesAt: number;
+
+    token?: `0x${string}`;
+    quote?: JobQuote;
+    swapHash?: `0x${string}`;
+    tokensReceived?: bigint;
+    approveHash?: `0x${string}`;
+    depositHash?: `0x${string}`;
+    allocations?: BatchAllocation[];
+
+    error?: string;
+    failedAt?: BatchState;
+    createdAt: number;
+    updatedAt: number;
+}
+
+const TERMINAL_STATES: BatchState[] = ['allocated', 'dissolved', 'failed'];
+
+const store = new JsonFileStore<Batch>(path.join(CONFIG.DATA_DIR, 'batches.json'));
+
+export function isBatchTerminal(state: BatchState) {
+    return TERMINAL_STATES.includes(state);
+}
+
+export function createBatch(strategy: `0x${string}`, closesAt: number): Batch {
+    const now = Date.now();
+    const id = `${strategy.toLowerCase()}-${now}`;
+    return store.set(id, { id, state: 'open', strategy, jobIds: [], ethAmount: 0n, closesAt, createdAt: now, updatedAt: now });
+}
+
+export function getBatch(id: string): Batch | undefined {
+    return store.get(id);
+}
+
+export function updateBatch(id: string, patch: Partial<Omit<Batch, 'id'>>): Batch {
+    const batch = store.get(id);
+    if (!batch) throw new Error(`Unknown batch: ${id}`);
+    return store.set(id, { ...batch, ...patch, updatedAt: Date.now() });
+}
+
+export function listBatches(filter?: (batch: Batch) => boolean): Batch[] {
+    const batches = store.values();
+    return filter ? batches.filter(filter) : batches;
+}
+
+export function getOpenBatch(strategy: `0x${string}`): Batch | undefined {
+    return listBatches(batch => batch.state === 'open' && batch.strategy === strategy)[0];
+}
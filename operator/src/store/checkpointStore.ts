@@ -0,0 +1,30 @@
+import path from 'path';
+import { CONFIG } from '../config';
+import { JsonFileStore } from './fileStore';
+
+export interface Checkpoint {
+    address: `0x${string}`;
+    lastBlock: bigint; // Highest block whose logs for this address have been handled
+    updatedAt: number;
+}
+
+const store = new JsonFileStore<Checkpoint>(path.join(CONFIG.DATA_DIR, 'checkpoints.json'));
+
+export function getCheckpoint(address: `0x${string}`): bigint | undefined {
+    return store.get(address.toLowerCase())?.lastBlock;
+}
+
+/**
+ * Move an address's checkpoint forward. Never moves it backwards, so
+ * out-of-order log delivery cannot cause already-seen ranges to be skipped.
+ */
+export function advanceCheckpoint(address: `0x${string}`, block: bigint) {
+    const current = getCheckpoint(address);
+    if (current !== undefined && current >= block) return;
+
+    store.set(address.toLowerCase(), { address, lastBlock: block, updatedAt: Date.now() });
+}
+
+export function listCheckpoints(): Checkpoint[] {
+    return store.values();
+}
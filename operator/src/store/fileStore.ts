@@ -0,0 +1,64 @@
+import fs from 'fs';
+import path from 'path';
+
+// BigInts are tagged as "<digits>n" strings so records round-trip exactly through JSON
+const BIGINT_PATTERN = /^-?\d+n$/;
+
+function replacer(_key: string, value: unknown) {
+    return typeof value === 'bigint' ? `${value.toString()}n` : value;
+}
+
+function reviver(_key: string, value: unknown) {
+    if (typeof value === 'string' && BIGINT_PATTERN.test(value)) {
+        return BigInt(value.slice(0, -1));
+    }
+    return value;
+}
+
+/**
+ * Keyed JSON document store persisted to a single file.
+ * Every mutation is flushed synchronously via write-then-rename, so a crash
+ * leaves either the previous or the new file on disk, never a torn one.
+ */
+export class JsonFileStore<T> {
+    private records: Record<string, T>;
+
+    constructor(private readonly filePath: string) {
+        this.records = this.load();
+    }
+
+    get(id: string): T | undefined {
+        return this.records[id];
+    }
+
+    has(id: string): boolean {
+        return id in this.records;
+    }
+
+    values(): T[] {
+        return Object.values(this.records);
+    }
+
+    set(id: string, value: T): T {
+        this.records[id] = value;
+        this.flush();
+        return value;
+    }
+
+    delete(id: string) {
+        delete this.records[id];
+        this.flush();
+    }
+
+    private load(): Record<string, T> {
+        if (!fs.existsSync(this.filePath)) return {};
+        return JSON.parse(fs.readFileSync(this.filePath, 'utf8'), reviver);
+    }
+
+    private flush() {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        const tmpPath = `${this.filePath}.tmp`;
+        fs.writeFileSync(tmpPath, JSON.stringify(this.records, replacer, 2));
+        fs.renameSync(tmpPath, this.filePath);
+    }
+}
@@ -0,0 +1,177 @@
+import path from 'path';
+import { CONFIG } from '../config';
+import { JsonFileStore } from './fileStore';
+import type { RouteCandidate, UnfillableReason } from '../services/swapService';
+import type { BatchAllocation } from './batchStore';
+
+/**
+ * Lifecycle of a pending contribution, in execution order.
+ * Each state means the step of the same name has completed on-chain,
+ * so a restarted operator resumes from the next step.
+ */
+export const JOB_STATES = [
+    'pending',
+    'quoted',
+    'swapped',
+    'approved',
+    'deposited',
+    'confirmed',
+    'failed',
+    'refunded', // Never filled; contributor got their ETH back on-chain
+    'abandoned', // Given up on by an admin; no further automatic handling
+    'orphaned' // Source contribution was reorged out of the chain
+] as const;
+
+export type JobState = typeof JOB_STATES[number];
+
+export interface JobQuote {
+    provider: string;
+    to: `0x${string}`;
+    value: bigint;
+    data: `0x${string}`;
+    buyAmount: bigint;
+    netBuyAmount: bigint;
+    slippageBps: number; // Strategy policy applied to this quote
+    minExpected: bigint;
+    quotedAt: number;
+    candidates: RouteCandidate[]; // All sources compared when this quote was chosen
+}
+
+/**
+ * One timed part of a large contribution's swap (TWAP execution).
+ */
+export interface JobSlice {
+    ethAmount: bigint;
+    quote?: JobQuote;
+    swapHash?: `0x${string}`;
+    tokensReceived?: bigint;
+    swappedAt?: number; // Next slice waits TWAP_SLICE_INTERVAL_MS after this
+}
+
+/**
+ * Tokens bought for a contribution that was reorged out, which confirmSwap can
+ * no longer credit. 'operator': still in the operator wallet; 'strategy':
+ * deposited via receiveTokens but never confirmed to a contributor.
+ */
+export interface StrandedTokens {
+    token: `0x${string}`;
+    amount: bigint;
+    holder: 'operator' | 'strategy';
+}
+
+export interface Job {
+    id: string;
+    state: JobState;
+    strategy: `0x${string}`;
+    contributor: `0x${string}`;
+    ethAmount: bigint;
+
+    // Source ContributionPending log
+    sourceTx: `0x${string}`;
+    sourceLogIndex: number; // Part of the id; not updated when a reorg re-mines the tx elsewhere
+    blockNumber: bigint;
+    blockHash?: `0x${string}`; // Block the source log was last seen in, verified before spending ETH
+
+    token?: `0x${string}`;
+    quote?: JobQuote;
+    swapHash?: `0x${string}`;
+    slices?: JobSlice[]; // Set instead of quote/swapHash when the swap is split
+    tokensReceived?: bigint; // Summed over slices when split; this job's share when batched
+    batchId?: string; // Swapped together with other small contributions; the batch drives it until allocation
+    allocation?: BatchAllocation;
+    approveHash?: `0x${string}`;
+    depositHash?: `0x${string}`;
+    confirmHash?: `0x${string}`;
+
+    error?: string;
+    failedAt?: JobState; // State the job was in when it failed
+    unfillable?: UnfillableReason; // Deliberately not executed; left to the pending-timeout refund
+    refundHash?: `0x${string}`;
+    orphanedAt?: JobState; // State the job was in when its source was reorged out
+    strandedTokens?: StrandedTokens; // Set when an orphaned job had already bought tokens
+    attempts: number;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export type NewJob = Pick<Job, 'strategy' | 'contributor' | 'ethAmount' | 'sourceTx' | 'sourceLogIndex' | 'blockNumber' | 'blockHash'>;
+
+const TERMINAL_STATES: JobState[] = ['confirmed', 'failed', 'refunded', 'abandoned', 'orphaned'];
+
+const store = new JsonFileStore<Job>(path.join(CONFIG.DATA_DIR, 'jobs.json'));
+
+export function jobIdFor(strategy: string, sourceTx: string, sourceLogIndex: number) {
+    return `${strategy.toLowerCase()}-${sourceTx}-${sourceLogIndex}`;
+}
+
+export function isTerminal(state: JobState) {
+    return TERMINAL_STATES.includes(state);
+}
+
+/**
+ * Register a pending contribution. Returns the existing job when the same
+ * log has already been seen, so replayed events never create duplicates.
+ */
+export function createJob(input: NewJob): { job: Job; created: boolean } {
+    const id = jobIdFor(input.strategy, input.sourceTx, input.sourceLogIndex);
+    const existing = store.get(id);
+    if (existing) return { job: existing, created: false };
+
+    const now = Date.now();
+    const job = store.set(id, {
+        ...input,
+        id,
+        state: 'pending',
+        attempts: 0,
+        createdAt: now,
+        updatedAt: now
+    });
+    return { job, created: true };
+}
+
+export function getJob(id: string): Job | undefined {
+    return store.get(id);
+}
+
+export function updateJob(id: string, patch: Partial<Omit<Job, 'id'>>): Job {
+    const job = store.get(id);
+    if (!job) throw new Error(`Unknown job: ${id}`);
+    return store.set(id, { ...job, ...patch, updatedAt: Date.now() });
+}
+
+export function updateSlice(id: string, index: number, patch: Partial<JobSlice>): Job {
+    const job = store.get(id);
+    if (!job?.slices?.[index]) throw new Error(`Unknown slice ${index} of job ${id}`);
+    const slices = job.slices.map((slice, i) => (i === index ? { ...slice, ...patch } : slice));
+    return updateJob(id, { slices });
+}
+
+/**
+ * The job for a contribution from the same transaction, whatever block or log
+ * index it was mined at. Used to recognise a tx re-mined after a reorg.
+ */
+export function findJobBySource(
+    strategy: `0x${string}`,
+    sourceTx: `0x${string}`,
+    contributor: `0x${string}`,
+    ethAmount: bigint
+): Job | undefined {
+    return store.values().find(job =>
+        job.strategy.toLowerCase() === strategy.toLowerCase()
+        && job.sourceTx === sourceTx
+        && job.contributor.toLowerCase() === contributor.toLowerCase()
+        && job.ethAmount === ethAmount
+    );
+}
+
+export function listJobs(filter?: (job: Job) => boolean): Job[] {
+    const jobs = store.values();
+    return filter ? jobs.filter(filter) : jobs;
+}
+
+/**
+ * Jobs interrupted mid-flight (e.g. by a restart) that should be picked up again.
+ */
+export function getResumableJobs(): Job[] {
+    return listJobs(job => !isTerminal(job.state));
+}
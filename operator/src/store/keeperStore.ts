@@ -0,0 +1,56 @@
+import path from 'path';
+import { CONFIG } from '../config';
+import { JsonFileStore } from './fileStore';
+
+export type KeeperActionName = 'initiateUnwind' | 'executeUnwind' | 'distribute';
+
+export interface KeeperAction {
+    id: string;
+    strategy: `0x${string}`;
+    action: KeeperActionName;
+    status: 'sent' | 'mined' | 'failed';
+    hash?: `0x${string}`;
+    error?: string;
+    attempts: number;
+    updatedAt: number;
+}
+
+const store = new JsonFileStore<KeeperAction>(path.join(CONFIG.DATA_DIR, 'keeper.json'));
+
+function actionId(strategy: `0x${string}`, action: KeeperActionName) {
+    return `${strategy.toLowerCase()}-${action}`;
+}
+
+export function getKeeperAction(strategy: `0x${string}`, action: KeeperActionName): KeeperAction | undefined {
+    return store.get(actionId(strategy, action));
+}
+
+/**
+ * Record the latest attempt of an action; there is one record per strategy and action.
+ * A 'sent' record counts as a new attempt unless it is a fee-bump replacement of the
+ * transaction already in flight.
+ */
+export function recordKeeperAction(
+    strategy: `0x${string}`,
+    action: KeeperActionName,
+    patch: Pick<KeeperAction, 'status'> & Partial<Pick<KeeperAction, 'hash' | 'error'>> & { replacement?: boolean }
+): KeeperAction {
+    const id = actionId(strategy, action);
+    const existing = store.get(id);
+    const isNewAttempt = patch.status === 'sent' && !patch.replacement;
+
+    return store.set(id, {
+        id,
+        strategy,
+        action,
+        hash: patch.hash ?? existing?.hash,
+        error: patch.error,
+        status: patch.status,
+        attempts: (existing?.attempts ?? 0) + (isNewAttempt ? 1 : 0),
+        updatedAt: Date.now()
+    });
+}
+
+export function listKeeperActions(): KeeperAction[] {
+    return store.values();
+}
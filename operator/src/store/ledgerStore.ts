@@ -0,0 +1,49 @@
+import path from 'path';
+import { CONFIG } from '../config';
+import { JsonFileStore } from './fileStore';
+
+export interface Withdrawal {
+    hash: `0x${string}`;
+    amount: bigint;
+    blockNumber: bigint;
+    at: number;
+}
+
+/**
+ * What the operator is owed by one strategy. The contract credits
+ * operatorBalances on every confirmSwap, so what we should see on-chain is
+ * confirmed contributions minus what we have withdrawn.
+ */
+export interface OperatorLedger {
+    strategy: `0x${string}`;
+    withdrawn: bigint;
+    withdrawals: Withdrawal[];
+    pendingWithdrawal?: `0x${string}`; // Broadcast but not yet recorded; settled on the next pass after a crash
+    expected?: bigint; // At the last check
+    onChain?: bigint;
+    discrepancy?: bigint; // onChain - expected; 0 when reconciled
+    checkedAt?: number;
+}
+
+const store = new JsonFileStore<OperatorLedger>(path.join(CONFIG.DATA_DIR, 'ledger.json'));
+
+export function getLedger(strategy: `0x${string}`): OperatorLedger {
+    return store.get(strategy.toLowerCase()) ?? { strategy, withdrawn: 0n, withdrawals: [] };
+}
+
+export function updateLedger(strategy: `0x${string}`, patch: Partial<Omit<OperatorLedger, 'strategy'>>): OperatorLedger {
+    return store.set(strategy.toLowerCase(), { ...getLedger(strategy), ...patch });
+}
+
+export function recordWithdrawal(strategy: `0x${string}`, withdrawal: Withdrawal): OperatorLedger {
+    const ledger = getLedger(strategy);
+    return updateLedger(strategy, {
+        withdrawn: ledger.withdrawn + withdrawal.amount,
+        withdrawals: [...ledger.withdrawals, withdrawal],
+        pendingWithdrawal: undefined
+    });
+}
+
+export function listLedgers(): OperatorLedger[] {
+    return store.values();
+}
@@ -0,0 +1,51 @@
+import path from 'path';
+import { CONFIG } from '../config';
+import { JsonFileStore } from './fileStore';
+import type { RouteCandidate } from '../services/swapService';
+
+export type SimulatedStep = 'swap' | 'approve' | 'receiveTokens' | 'confirmSwap';
+
+// How processJob would execute the contribution: one swap, timed slices, or a shared batch swap
+export type ExecutionPlan = 'single' | 'twap' | 'batch';
+
+export interface StepResult {
+    step: SimulatedStep;
+    slice?: number; // Which slice's swap, when the plan is 'twap'
+    ok: boolean;
+    gasUsed?: bigint;
+    error?: string;
+}
+
+/**
+ * What a dry-run operator would have done for one contribution.
+ */
+export interface DryRunReport {
+    jobId: string;
+    strategy: `0x${string}`;
+    contributor: `0x${string}`;
+    ethAmount: bigint;
+    plan?: ExecutionPlan;
+    slices?: bigint[]; // ETH per slice, when the plan is 'twap'
+    token?: `0x${string}`;
+    provider?: string; // Of the first slice, when the plan is 'twap'
+    candidates?: RouteCandidate[];
+    slippageBps?: number;
+    quotedBuyAmount?: bigint; // Summed over slices when split
+    tokensReceived?: bigint; // From the simulated swaps' Transfer logs
+    minExpected?: bigint; // What confirmSwap would be called with
+    steps: StepResult[];
+    wouldSucceed: boolean;
+    error?: string;
+    simulatedAt: number;
+    blockNumber?: bigint;
+}
+
+const store = new JsonFileStore<DryRunReport>(path.join(CONFIG.DATA_DIR, 'dry-run-reports.json'));
+
+export function saveReport(report: DryRunReport): DryRunReport {
+    return store.set(report.jobId, report);
+}
+
+export function listReports(): DryRunReport[] {
+    return store.values();
+}
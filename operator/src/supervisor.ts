@@ -0,0 +1,76 @@
+import dotenv from 'dotenv';
+import path from 'path';
+import readline from 'readline';
+import { fork, ChildProcess } from 'child_process';
+import { ChainWorkerConfig, loadChains, workerEnv } from './chains';
+
+dotenv.config();
+
+const RESTART_DELAY_MS = 5_000;
+const MAX_RESTART_DELAY_MS = 300_000;
+
+// ts-node runs this file in-process, so workers need the hook registered explicitly
+const WORKER_ENTRY = path.join(__dirname, `index${path.extname(__filename)}`);
+const WORKER_EXEC_ARGV = path.extname(__filename) === '.ts' ? ['-r', 'ts-node/register'] : [];
+
+function prefixOutput(stream: NodeJS.ReadableStream | null, prefix: string, write: (line: string) => void) {
+    if (!stream) return;
+    readline.createInterface({ input: stream }).on('line', line => write(`${prefix} ${line}\n`));
+}
+
+/**
+ * Keep a worker running, restarting it with exponential backoff when it exits.
+ * A worker that crashes at startup (bad RPC, missing factory) must not take the other chains down.
+ */
+function startWorker(chain: ChainWorkerConfig, index: number, workers: Map<string, ChildProcess>) {
+    let restartDelay = RESTART_DELAY_MS;
+
+    const spawn = () => {
+        const startedAt = Date.now();
+        const child = fork(WORKER_ENTRY, [], {
+            env: workerEnv(chain, index),
+            execArgv: WORKER_EXEC_ARGV,
+            silent: true
+        });
+        workers.set(chain.name, child);
+
+        const prefix = `[${chain.name}]`;
+        prefixOutput(child.stdout, prefix, line => process.stdout.write(line));
+        prefixOutput(child.stderr, prefix, line => process.stderr.write(line));
+
+        child.on('exit', (code, signal) => {
+            workers.delete(chain.name);
+            if (shuttingDown) return;
+
+            // A worker that stayed up a while earns a fresh backoff
+            if (Date.now() - startedAt > MAX_RESTART_DELAY_MS) restartDelay = RESTART_DELAY_MS;
+            console.error(`${prefix} Worker exited (${signal ?? code}); restarting in ${restartDelay / 1000}s`);
+            setTimeout(spawn, restartDelay);
+            restartDelay = Math.min(restartDelay * 2, MAX_RESTART_DELAY_MS);
+        });
+    };
+
+    spawn();
+}
+
+let shuttingDown = false;
+
+function main() {
+    const chains = loadChains();
+    const workers = new Map<string, ChildProcess>();
+
+    console.log(`Starting ${chains.length} chain workers: ${chains.map(chain => `${chain.name} (${chain.chainId})`).join(', ')}`);
+    chains.forEach((chain, index) => startWorker(chain, index, workers));
+
+    for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+        process.on(signal, () => {
+            shuttingDown = true;
+            console.log(`Stopping ${workers.size} chain workers...`);
+            workers.forEach(child => child.kill(signal));
+            // Give workers a moment to flush their stores before exiting
+            setTimeout(() => process.exit(0), 2_000).unref();
+        });
+    }
+}
+
+main();
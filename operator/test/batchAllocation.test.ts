@@ -0,0 +1,65 @@
+import './setup';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { allocate, zeroShareMembers } from '../src/services/batchService';
+import type { JobQuote } from '../src/store/jobStore';
+
+const contributor = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8' as const;
+
+function batchOf(ethAmounts: bigint[], tokensReceived: bigint, minExpected: bigint) {
+    const jobs = ethAmounts.map((ethAmount, i) => ({ id: `job-${i}`, contributor, ethAmount }));
+    const batch = {
+        ethAmount: ethAmounts.reduce((sum, amount) => sum + amount, 0n),
+        tokensReceived,
+        quote: { minExpected } as JobQuote
+    };
+    return { batch, jobs };
+}
+
+test('splits tokens pro-rata to ETH', () => {
+    const { batch, jobs } = batchOf([1n, 3n], 400n, 200n);
+    const allocations = allocate(batch, jobs);
+
+    assert.deepEqual(allocations.map(a => a.tokens), [100n, 300n]);
+    assert.deepEqual(allocations.map(a => a.minExpected), [50n, 150n]);
+});
+
+test('gives the rounding dust to the largest member', () => {
+    const { batch, jobs } = batchOf([1n, 1n, 2n], 10n, 4n);
+    const allocations = allocate(batch, jobs);
+
+    // floor(10/4) = 2, 2, floor(20/4) = 5; 1 token of dust
+    assert.deepEqual(allocations.map(a => a.tokens), [2n, 2n, 6n]);
+    assert.deepEqual(allocations.map(a => a.dust), [0n, 0n, 1n]);
+    assert.equal(allocations.reduce((sum, a) => sum + a.tokens, 0n), 10n);
+});
+
+test('never sets a zero minExpected', () => {
+    const { batch, jobs } = batchOf([1n, 9n], 100n, 5n);
+    const allocations = allocate(batch, jobs);
+
+    assert.deepEqual(allocations.map(a => a.minExpected), [1n, 4n]);
+    for (const allocation of allocations) assert.ok(allocation.tokens >= allocation.minExpected);
+});
+
+test('excludes members whose share of the minimum rounds to zero before the swap', () => {
+    const { jobs } = batchOf([1n, 1000n], 500n, 400n);
+
+    assert.deepEqual(zeroShareMembers(400n, jobs).map(job => job.id), ['job-0']);
+    assert.deepEqual(zeroShareMembers(2000n, jobs), []);
+});
+
+test('never excludes the largest member', () => {
+    const { jobs } = batchOf([2n, 3n, 4n], 1n, 1n);
+
+    assert.deepEqual(zeroShareMembers(1n, jobs).map(job => job.id), ['job-0', 'job-1']);
+});
+
+test('gives every remaining member a share once zero shares are excluded', () => {
+    const { batch, jobs } = batchOf([3n, 1000n], 400n, 400n);
+    assert.deepEqual(zeroShareMembers(batch.quote.minExpected, jobs), []);
+
+    for (const allocation of allocate(batch, jobs)) {
+        assert.ok(allocation.tokens >= allocation.minExpected && allocation.minExpected > 0n);
+    }
+});
@@ -0,0 +1,58 @@
+import './setup';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { removeFromBatch } from '../src/services/batchService';
+import { createJob, getJob, updateJob } from '../src/store/jobStore';
+import { createBatch, updateBatch } from '../src/store/batchStore';
+import type { JobQuote } from '../src/store/jobStore';
+
+const contributor = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8' as const;
+let sequence = 0;
+
+function batchWith(strategy: `0x${string}`, ethAmounts: bigint[]) {
+    const batch = createBatch(strategy, Date.now() + 60_000);
+    const jobs = ethAmounts.map(ethAmount => {
+        const { job } = createJob({
+            strategy,
+            contributor,
+            ethAmount,
+            sourceTx: `0x${(++sequence).toString(16).padStart(64, '0')}`,
+            sourceLogIndex: 0,
+            blockNumber: 1n
+        });
+        return updateJob(job.id, { batchId: batch.id });
+    });
+    const total = ethAmounts.reduce((sum, amount) => sum + amount, 0n);
+    return { batch: updateBatch(batch.id, { jobIds: jobs.map(job => job.id), ethAmount: total }), jobs };
+}
+
+test('takes a leaving member and its ETH out of the batch', () => {
+    const { batch, jobs } = batchWith('0x0000000000000000000000000000000000000b01', [1n, 2n, 3n]);
+    const updated = removeFromBatch(batch.id, jobs[1].id);
+
+    assert.deepEqual(updated.jobIds, [jobs[0].id, jobs[2].id]);
+    assert.equal(updated.ethAmount, 4n);
+    assert.equal(getJob(jobs[1].id)!.batchId, undefined);
+});
+
+test('drops a quote for the old total so the batch re-quotes', () => {
+    const { batch, jobs } = batchWith('0x0000000000000000000000000000000000000b02', [1n, 2n]);
+    updateBatch(batch.id, { state: 'quoted', quote: { minExpected: 1n } as JobQuote });
+
+    const updated = removeFromBatch(batch.id, jobs[0].id);
+    assert.equal(updated.state, 'closed');
+    assert.equal(updated.quote, undefined);
+});
+
+test('dissolves a batch its last member leaves', () => {
+    const { batch, jobs } = batchWith('0x0000000000000000000000000000000000000b03', [1n]);
+
+    assert.equal(removeFromBatch(batch.id, jobs[0].id).state, 'dissolved');
+});
+
+test('refuses once the batch has swapped', () => {
+    const { batch, jobs } = batchWith('0x0000000000000000000000000000000000000b04', [1n, 2n]);
+    updateBatch(batch.id, { state: 'swapped', swapHash: '0x01' });
+
+    assert.throws(() => removeFromBatch(batch.id, jobs[0].id), /already swapped/);
+});
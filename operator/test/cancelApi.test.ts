@@ -0,0 +1,62 @@
+import './setup';
+import { test, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'events';
+import type { AddressInfo } from 'net';
+import { HttpRequestError, TransactionNotFoundError } from 'viem';
+import { publicClient } from '../src/config';
+import { startApiServer } from '../src/api/server';
+
+const server = startApiServer();
+after(() => server.close());
+
+async function cancel(hash: string, token = 'test-token') {
+    if (!server.listening) await once(server, 'listening');
+    const { port } = server.address() as AddressInfo;
+    const response = await fetch(`http://127.0.0.1:${port}/transactions/${hash}/cancel`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` }
+    });
+    return { status: response.status, body: await response.json() };
+}
+
+const HASH = `0x${'ab'.repeat(32)}`;
+
+test('requires the admin token', async () => {
+    const { status } = await cancel(HASH, 'wrong-token');
+    assert.equal(status, 401);
+});
+
+test('rejects anything but a transaction hash', async () => {
+    const { status, body } = await cancel('0x1234');
+    assert.equal(status, 400);
+    assert.match(body.error, /Not a transaction hash/);
+});
+
+test('answers 404 for a transaction the node does not know', async () => {
+    const getTransaction = mock.method(publicClient, 'getTransaction', async () => {
+        throw new TransactionNotFoundError({ hash: HASH as `0x${string}` });
+    });
+    try {
+        const { status, body } = await cancel(HASH);
+        assert.equal(status, 404);
+        assert.match(body.error, new RegExp(HASH));
+        assert.equal(getTransaction.mock.callCount(), 1);
+    } finally {
+        getTransaction.mock.restore();
+    }
+});
+
+test('does not report a transaction as dropped when the RPC fails', async () => {
+    const getTransaction = mock.method(publicClient, 'getTransaction', async () => {
+        throw new HttpRequestError({ url: 'http://rpc.invalid', status: 503 });
+    });
+    try {
+        const { status, body } = await cancel(HASH);
+        assert.notEqual(status, 404);
+        assert.doesNotMatch(body.error, /unknown to the node/);
+        assert.match(body.error, /HTTP request failed/);
+    } finally {
+        getTransaction.mock.restore();
+    }
+});
@@ -0,0 +1,27 @@
+import './setup';
+import { test, mock, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { publicClient } from '../src/config';
+import { deploymentBlock } from '../src/services/backfillService';
+
+const ADDRESS = '0x00000000000000000000000000000000000000aa';
+
+afterEach(() => mock.restoreAll());
+
+function deployedAt(block: bigint) {
+    return mock.method(publicClient, 'getCode', async ({ blockNumber }: { blockNumber: bigint }) =>
+        (blockNumber >= block ? '0x6080' : undefined));
+}
+
+test('finds the first block with code', async () => {
+    const getCode = deployedAt(12_345_678n);
+    assert.equal(await deploymentBlock(ADDRESS, 20_000_000n), 12_345_678n);
+    assert.ok(getCode.mock.callCount() <= 26);
+});
+
+test('handles a contract deployed at the edges of the range', async () => {
+    deployedAt(0n);
+    assert.equal(await deploymentBlock(ADDRESS, 1_000n), 0n);
+    deployedAt(1_000n);
+    assert.equal(await deploymentBlock(ADDRESS, 1_000n), 1_000n);
+});
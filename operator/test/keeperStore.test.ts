@@ -0,0 +1,31 @@
+import './setup';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { recordKeeperAction } from '../src/store/keeperStore';
+
+test('counts each new send as an attempt', () => {
+    const strategy = '0x0000000000000000000000000000000000000001';
+    recordKeeperAction(strategy, 'initiateUnwind', { status: 'sent', hash: '0x01' });
+    recordKeeperAction(strategy, 'initiateUnwind', { status: 'failed', error: 'reverted' });
+    const retried = recordKeeperAction(strategy, 'initiateUnwind', { status: 'sent', hash: '0x02' });
+
+    assert.equal(retried.attempts, 2);
+});
+
+test('does not count fee-bump replacements as attempts', () => {
+    const strategy = '0x0000000000000000000000000000000000000002';
+    recordKeeperAction(strategy, 'distribute', { status: 'sent', hash: '0x01' });
+    recordKeeperAction(strategy, 'distribute', { status: 'sent', hash: '0x02', replacement: true });
+    const replaced = recordKeeperAction(strategy, 'distribute', { status: 'sent', hash: '0x03', replacement: true });
+
+    assert.equal(replaced.attempts, 1);
+    assert.equal(replaced.hash, '0x03');
+});
+
+test('keeps one record per strategy and action', () => {
+    const strategy = '0x0000000000000000000000000000000000000003';
+    recordKeeperAction(strategy, 'executeUnwind', { status: 'sent', hash: '0x01' });
+    const other = recordKeeperAction(strategy, 'distribute', { status: 'sent', hash: '0x02' });
+
+    assert.equal(other.attempts, 1);
+});
@@ -0,0 +1,71 @@
+import './setup';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { selectRoute, UnfillableError } from '../src/services/swapService';
+import type { Quote } from '../src/services/providers/types';
+
+const token = '0x00000000000000000000000000000000000000aa' as const;
+
+function quote(provider: string, buyAmount: bigint, estimatedGas: bigint, priceImpactBps?: number) {
+    const result: PromiseSettledResult<Quote> = {
+        status: 'fulfilled',
+        value: {
+            provider,
+            buyAmount,
+            grossBuyAmount: buyAmount,
+            sellAmount: 1000n,
+            estimatedGas,
+            priceImpactBps,
+            to: token,
+            data: '0x',
+            value: 1000n
+        }
+    };
+    return { provider, result };
+}
+
+function failed(provider: string, message: string) {
+    const result: PromiseSettledResult<Quote> = { status: 'rejected', reason: new Error(message) };
+    return { provider, result };
+}
+
+test('picks the highest output net of gas, not the highest gross', () => {
+    // Gas is priced in tokens at each quote's own rate: gas * gasPrice * buy / sell
+    const { quote: best, netBuyAmount, candidates } = selectRoute(token, [
+        quote('cheap', 1000n, 10n, 10),
+        quote('gassy', 1005n, 100n, 10)
+    ], 1n, 500);
+
+    assert.equal(best.provider, 'cheap');
+    assert.equal(netBuyAmount, 990n);
+    assert.deepEqual(candidates.map(c => [c.provider, c.netBuyAmount, c.selected]), [
+        ['cheap', 990n, true],
+        ['gassy', 905n, false]
+    ]);
+});
+
+test('never picks a quote over the impact limit or without an impact estimate', () => {
+    const { quote: best, candidates } = selectRoute(token, [
+        quote('impact', 2000n, 0n, 600),
+        quote('unknown', 1500n, 0n),
+        quote('within', 1000n, 0n, 500)
+    ], 1n, 500);
+
+    assert.equal(best.provider, 'within');
+    assert.match(candidates[0].error!, /exceeds policy/);
+    assert.equal(candidates[1].error, 'No price impact estimate');
+});
+
+test('records failed sources and refuses as slippage when quotes exist but breach policy', () => {
+    assert.throws(
+        () => selectRoute(token, [failed('down', 'timeout'), quote('impact', 1000n, 0n, 900)], 1n, 500),
+        (error: unknown) => error instanceof UnfillableError && error.reason === 'slippage' && /down: timeout/.test(error.message)
+    );
+});
+
+test('refuses as no-quote when every source failed', () => {
+    assert.throws(
+        () => selectRoute(token, [failed('a', 'timeout'), failed('b', 'no route')], 1n, 500),
+        (error: unknown) => error instanceof UnfillableError && error.reason === 'no-quote'
+    );
+});
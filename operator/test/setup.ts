@@ -0,0 +1,13 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Services read their configuration at import time; give them a throwaway
+// operator (anvil's first account), data directory and admin token before any is
+// loaded. The RPC points at a closed port so no test ever reaches a real chain.
+process.env.PRIVATE_KEY ??= '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+process.env.FACTORY_ADDRESS ??= '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+process.env.RPC_URL = 'http://127.0.0.1:9';
+process.env.ADMIN_PORT = '0';
+process.env.ADMIN_TOKEN = 'test-token';
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'xstrat-op-test-'));
@@ -0,0 +1,27 @@
+import './setup';
+import { test, mock, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { HttpRequestError, MethodNotFoundRpcError, RpcRequestError } from 'viem';
+import { publicClient } from '../src/config';
+import { assertSimulationSupported } from '../src/services/simulationService';
+
+afterEach(() => mock.restoreAll());
+
+test('passes when the node simulates', async () => {
+    mock.method(publicClient, 'simulateCalls', async () => ({ assetChanges: [], block: {}, results: [] }));
+    await assertSimulationSupported();
+});
+
+test('fails clearly when the node lacks eth_simulateV1', async () => {
+    mock.method(publicClient, 'simulateCalls', async () => {
+        throw new MethodNotFoundRpcError(new RpcRequestError({ body: {}, error: { code: -32601, message: 'method not found' }, url: '' }));
+    });
+    await assert.rejects(assertSimulationSupported(), /supports eth_simulateV1/);
+});
+
+test('passes other RPC failures through', async () => {
+    mock.method(publicClient, 'simulateCalls', async () => {
+        throw new HttpRequestError({ url: 'http://127.0.0.1:9', status: 503 });
+    });
+    await assert.rejects(assertSimulationSupported(), HttpRequestError);
+});
@@ -0,0 +1,22 @@
+import './setup';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CONFIG } from '../src/config';
+import { resolveSlippageBps } from '../src/services/slippagePolicy';
+
+test('the registry can tighten the on-chain ceiling', () => {
+    assert.equal(resolveSlippageBps(2, 300), 200);
+});
+
+test('the registry can never loosen the on-chain ceiling', () => {
+    assert.equal(resolveSlippageBps(5, 300), 300);
+});
+
+test('converts the registry percentage to bps when there is no ceiling', () => {
+    assert.equal(resolveSlippageBps(1.5, undefined), 150);
+    assert.equal(resolveSlippageBps(undefined, 300), 300);
+});
+
+test('falls back to the default without a policy or ceiling', () => {
+    assert.equal(resolveSlippageBps(undefined, undefined), CONFIG.DEFAULT_SLIPPAGE_BPS);
+});
@@ -0,0 +1,53 @@
+import './setup';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Job } from '../src/store/jobStore';
+import { strandedTokensOf } from '../src/services/reorgService';
+
+const TOKEN = '0x00000000000000000000000000000000000000aa' as const;
+
+function job(patch: Partial<Job>): Job {
+    return {
+        id: 'job',
+        state: 'swapped',
+        strategy: '0x0000000000000000000000000000000000000001',
+        contributor: '0x0000000000000000000000000000000000000002',
+        ethAmount: 10n ** 18n,
+        sourceTx: '0x01',
+        sourceLogIndex: 0,
+        blockNumber: 1n,
+        attempts: 0,
+        createdAt: 0,
+        updatedAt: 0,
+        ...patch
+    };
+}
+
+test('records swapped tokens as held by the operator', () => {
+    assert.deepEqual(
+        strandedTokensOf(job({ token: TOKEN, tokensReceived: 500n })),
+        { token: TOKEN, amount: 500n, holder: 'operator' }
+    );
+});
+
+test('records deposited tokens as held by the strategy', () => {
+    assert.equal(strandedTokensOf(job({ state: 'deposited', token: TOKEN, tokensReceived: 500n }))?.holder, 'strategy');
+});
+
+test('sums the slices of a part-swapped TWAP job', () => {
+    const stranded = strandedTokensOf(job({
+        state: 'quoted',
+        token: TOKEN,
+        slices: [
+            { ethAmount: 1n, tokensReceived: 200n },
+            { ethAmount: 1n, tokensReceived: 300n },
+            { ethAmount: 1n }
+        ] as Job['slices']
+    }));
+    assert.equal(stranded?.amount, 500n);
+});
+
+test('records nothing before a swap or for an unallocated batch member', () => {
+    assert.equal(strandedTokensOf(job({ state: 'quoted', token: TOKEN })), undefined);
+    assert.equal(strandedTokensOf(job({ token: TOKEN, batchId: 'batch' })), undefined);
+});
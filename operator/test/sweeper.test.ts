@@ -0,0 +1,56 @@
+import './setup';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Job } from '../src/store/jobStore';
+import { createBatch, updateBatch } from '../src/store/batchStore';
+import { blocksRefund, failedAfterSwap, isUnfilled } from '../src/services/sweeperService';
+
+function job(patch: Partial<Job>): Job {
+    return {
+        id: 'job',
+        state: 'pending',
+        strategy: '0x0000000000000000000000000000000000000001',
+        contributor: '0x0000000000000000000000000000000000000002',
+        ethAmount: 10n ** 18n,
+        sourceTx: '0x01',
+        sourceLogIndex: 0,
+        blockNumber: 1n,
+        attempts: 0,
+        createdAt: 0,
+        updatedAt: 0,
+        ...patch
+    };
+}
+
+test('only deliberate refusals count as unfilled', () => {
+    assert.equal(isUnfilled(job({ state: 'failed', failedAt: 'pending', unfillable: 'slippage' })), true);
+    assert.equal(isUnfilled(job({ state: 'failed', failedAt: 'pending', error: 'fetch failed' })), false);
+});
+
+test('a refused job that swapped is not unfilled but failed after its swap', () => {
+    const swapped = job({ state: 'failed', failedAt: 'swapped', unfillable: 'slippage', swapHash: '0x02' });
+
+    assert.equal(isUnfilled(swapped), false);
+    assert.equal(failedAfterSwap(swapped), true);
+    assert.equal(blocksRefund(swapped), true);
+});
+
+test('pending and unswapped failed jobs do not block a sweep by themselves', () => {
+    assert.equal(blocksRefund(job({})), false);
+    assert.equal(blocksRefund(job({ state: 'failed', failedAt: 'pending', error: 'fetch failed' })), false);
+});
+
+test('executing jobs block a sweep, settled ones never do', () => {
+    assert.equal(blocksRefund(job({ state: 'quoted' })), true);
+    assert.equal(blocksRefund(job({ state: 'deposited', tokensReceived: 1n })), true);
+    assert.equal(blocksRefund(job({ state: 'confirmed', tokensReceived: 1n })), false);
+});
+
+test('a pending member of a batch that swapped blocks a sweep', () => {
+    const batch = createBatch('0x0000000000000000000000000000000000000001', Date.now());
+    const member = job({ batchId: batch.id });
+    assert.equal(blocksRefund(member), false);
+
+    updateBatch(batch.id, { state: 'swapped', swapHash: '0x03' });
+    assert.equal(blocksRefund(member), true);
+});
@@ -0,0 +1,24 @@
+import './setup';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CONFIG } from '../src/config';
+import { sliceAmounts } from '../src/services/twapService';
+
+const threshold = CONFIG.TWAP_IMPACT_THRESHOLD_BPS;
+
+test('swaps in one shot at or under the impact threshold', () => {
+    assert.equal(sliceAmounts(10n ** 18n, threshold), undefined);
+});
+
+test('sizes slices to bring each under the threshold, the last taking the remainder', () => {
+    const slices = sliceAmounts(10n, threshold * 2.5);
+
+    assert.deepEqual(slices, [3n, 3n, 4n]);
+});
+
+test('never plans more than TWAP_MAX_SLICES', () => {
+    const slices = sliceAmounts(10n ** 18n, threshold * 100)!;
+
+    assert.equal(slices.length, CONFIG.TWAP_MAX_SLICES);
+    assert.equal(slices.reduce((sum, slice) => sum + slice, 0n), 10n ** 18n);
+});
@@ -8,11 +8,8 @@ import SimplifiedStrategyBuilder from "../components/builder/SimplifiedStrategyB
 import ActivityToast from "../components/ActivityToast";
 import { Strategy, SimplifiedStrategy } from "../lib/types/strategy";
 import { STRATEGIES } from "../lib/data/strategies";
-import {
-  XStrategyABI,
-  XStrategyFactoryABI,
-  FACTORY_ADDRESS,
-} from "../lib/abis";
+import { writes } from "@x-strategy/sdk";
+import { FACTORY_ADDRESS } from "../lib/abis";
 
 import { useTheme } from "next-themes";
 import StrategyPreview from "../components/StrategyPreview";
@@ -156,18 +153,15 @@ export default function Home() {
         milestoneUnlockBps: [2500, 5000, 7500, 10000],
       };
 
-      const tx = await writeContractAsync({
-        address: FACTORY_ADDRESS,
-        abi: XStrategyFactoryABI,
-        functionName: 'createStrategy',
-        args: [
-          contractArgs.targetToken,
-          contractArgs.designatedCreator,
-          contractArgs.targetAmount,
-          contractArgs.deadline,
-          contractArgs.milestoneUnlockBps,
-        ],
-      });
+      const tx = await writeContractAsync(
+        writes.createStrategy(FACTORY_ADDRESS, {
+          token: contractArgs.targetToken,
+          designatedCreator: contractArgs.designatedCreator,
+          targetAmount: contractArgs.targetAmount,
+          deadline: contractArgs.deadline,
+          milestoneUnlockBps: contractArgs.milestoneUnlockBps,
+        })
+      );
 
       console.log('Strategy creation transaction:', tx);
       setIsBuilderOpen(false);
@@ -203,12 +197,7 @@ export default function Home() {
     }
 
     try {
-      await writeContractAsync({
-        address: strategyId as `0x${string}`,
-        abi: XStrategyABI,
-        functionName: "optIn",
-        value: stake,
-      });
+      await writeContractAsync(writes.optIn(strategyId as `0x${string}`, stake));
       addNotification({
         type: 'success',
         title: 'Opt-in Successful',
@@ -234,12 +223,7 @@ export default function Home() {
     }
 
     try {
-      await writeContractAsync({
-        address: strategyId as `0x${string}`,
-        abi: XStrategyABI,
-        functionName: "contribute",
-        value: amount,
-      });
+      await writeContractAsync(writes.contribute(strategyId as `0x${string}`, amount));
       addNotification({
         type: 'success',
         title: 'Contribution Submitted',
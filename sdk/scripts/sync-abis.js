@@ -0,0 +1,49 @@
+/**
+ * Regenerate src/abis/*.ts from the Foundry build artifacts.
+ * Run `forge build` in contracts/ first, then `npm run sync-abis`.
+ */
+const fs = require('fs');
+const path = require('path');
+
+const ARTIFACTS_DIR = process.argv[2] || path.join(__dirname, '../../contracts/out');
+const CONTRACTS = [
+    { name: 'XStrategy', file: 'xStrategy.ts' },
+    { name: 'XStrategyFactory', file: 'xStrategyFactory.ts' }
+];
+
+// Keys in the order the hand-written fragments have always used; internalType is dropped
+const ENTRY_KEYS = ['type', 'name', 'inputs', 'outputs', 'stateMutability', 'anonymous'];
+const PARAM_KEYS = ['name', 'type', 'indexed', 'components'];
+
+function pick(object, keys) {
+    return Object.fromEntries(keys.filter(key => object[key] !== undefined).map(key => [key, object[key]]));
+}
+
+function formatParam(param, indent) {
+    const { components, ...rest } = pick(param, PARAM_KEYS);
+    const inline = Object.entries(rest).map(([key, value]) => `"${key}": ${JSON.stringify(value)}`).join(', ');
+    if (!components) return `${indent}{ ${inline} }`;
+    return `${indent}{\n${indent}    ${inline.replace(/, /g, `,\n${indent}    `)},\n`
+        + `${indent}    "components": ${formatParams(components, `${indent}    `)}\n${indent}}`;
+}
+
+function formatParams(params, indent) {
+    if (params.length === 0) return '[]';
+    if (params.length === 1 && !params[0].components) return `[${formatParam(params[0], '').trim()}]`;
+    return `[\n${params.map(param => formatParam(param, `${indent}    `)).join(',\n')}\n${indent}]`;
+}
+
+function formatEntry(entry) {
+    const lines = Object.entries(pick(entry, ENTRY_KEYS)).map(([key, value]) =>
+        `        "${key}": ${Array.isArray(value) ? formatParams(value, '        ') : JSON.stringify(value)}`
+    );
+    return `    {\n${lines.join(',\n')}\n    }`;
+}
+
+for (const { name, file } of CONTRACTS) {
+    const artifact = JSON.parse(fs.readFileSync(path.join(ARTIFACTS_DIR, `${name}.sol`, `${name}.json`), 'utf8'));
+    const source = `// Generated from contracts/src/${name}.sol by scripts/sync-abis.js; do not edit by hand\n`
+        + `export const ${name}ABI = [\n${artifact.abi.map(formatEntry).join(',\n')}\n] as const;\n`;
+    fs.writeFileSync(path.join(__dirname, '../src/abis', file), source);
+    console.log(`Wrote src/abis/${file} (${artifact.abi.length} entries)`);
+}
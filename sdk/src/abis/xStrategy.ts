@@ -0,0 +1,792 @@
+// Generated from contracts/src/XStrategy.sol by scripts/sync-abis.js; do not edit by hand
+export const XStrategyABI = [
+    {
+        "type": "constructor",
+        "inputs": [
+            { "name": "_strategyCreator", "type": "address" },
+            { "name": "_designatedCreator", "type": "address" },
+            { "name": "_token", "type": "address" },
+            { "name": "_targetAmount", "type": "uint256" },
+            { "name": "_deadline", "type": "uint256" },
+            { "name": "_milestoneUnlockBps", "type": "uint32[]" },
+            { "name": "_splitMain", "type": "address" },
+            { "name": "_operator", "type": "address" },
+            { "name": "_priceFeed", "type": "address" },
+            { "name": "_ethUsdPriceFeed", "type": "address" }
+        ],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "error",
+        "name": "AddressEmptyCode",
+        "inputs": [{ "name": "target", "type": "address" }]
+    },
+    {
+        "type": "error",
+        "name": "AddressInsufficientBalance",
+        "inputs": [{ "name": "account", "type": "address" }]
+    },
+    {
+        "type": "error",
+        "name": "AlreadyCompleted",
+        "inputs": []
+    },
+    {
+        "type": "error",
+        "name": "AlreadyWithdrawn",
+        "inputs": []
+    },
+    {
+        "type": "error",
+        "name": "BelowMinimum",
+        "inputs": []
+    },
+    {
+        "type": "error",
+        "name": "CooldownActive",
+        "inputs": []
+    },
+    {
+        "type": "error",
+        "name": "CreatorAlreadyResponded",
+        "inputs": []
+    },
+    {
+        "type": "error",
+        "name": "DeadlinePassed",
+        "inputs": []
+    },
+    {
+        "type": "error",
+        "name": "EmergencyWithdrawalNotAllowed",
+        "inputs": []
+    },
+    {
+        "type": "error",
+        "name": "FailedInnerCall",
+        "inputs": []
+    },
+    {
+        "type": "error",
+        "name": "InsufficientStake",
+        "inputs": []
+    },
+    {
+        "type": "error",
+        "name": "InvalidAmount",
+        "inputs": []
+    },
+    {
+        "type": "error",
+        "name": "InvalidMilestone",
+        "inputs": []
+    },
+    {
+        "type": "error",
+        "name": "InvalidOperator",
+        "inputs": []
+    },
+    {
+        "type": "error",
+        "name": "InvalidStatus",
+        "inputs": []
+    },
+    {
+        "type": "error",
+        "name": "MaxContributorsReached",
+        "inputs": []
+    },
+    {
+        "type": "error",
+        "name": "NoPendingContribution",
+        "inputs": []
+    },
+    {
+        "type": "error",
+        "name": "NoSplitCreated",
+        "inputs": []
+    },
+    {
+        "type": "error",
+        "name": "NoTokensToWithdraw",
+        "inputs": []
+    },
+    {
+        "type": "error",
+        "name": "NotActive",
+        "inputs": []
+    },
+    {
+        "type": "error",
+        "name": "NotContributor",
+        "inputs": []
+    },
+    {
+        "type": "error",
+        "name": "NotDesignatedCreator",
+        "inputs": []
+    },
+    {
+        "type": "error",
+        "name": "OnlyCreator",
+        "inputs": []
+    },
+    {
+        "type": "error",
+        "name": "OnlyFactory",
+        "inputs": []
+    },
+    {
+        "type": "error",
+        "name": "OnlyOperator",
+        "inputs": []
+    },
+    {
+        "type": "error",
+        "name": "PendingContributionTimeout",
+        "inputs": []
+    },
+    {
+        "type": "error",
+        "name": "SafeCastOverflowedUintDowncast",
+        "inputs": [
+            { "name": "bits", "type": "uint8" },
+            { "name": "value", "type": "uint256" }
+        ]
+    },
+    {
+        "type": "error",
+        "name": "SafeERC20FailedOperation",
+        "inputs": [{ "name": "token", "type": "address" }]
+    },
+    {
+        "type": "error",
+        "name": "SlippageExceeded",
+        "inputs": []
+    },
+    {
+        "type": "event",
+        "name": "ContributionConfirmed",
+        "inputs": [
+            { "name": "contributor", "type": "address", "indexed": true },
+            { "name": "ethAmount", "type": "uint256", "indexed": false },
+            { "name": "tokensReceived", "type": "uint256", "indexed": false }
+        ],
+        "anonymous": false
+    },
+    {
+        "type": "event",
+        "name": "ContributionPending",
+        "inputs": [
+            { "name": "contributor", "type": "address", "indexed": true },
+            { "name": "amount", "type": "uint256", "indexed": false }
+        ],
+        "anonymous": false
+    },
+    {
+        "type": "event",
+        "name": "ContributionRefunded",
+        "inputs": [
+            { "name": "contributor", "type": "address", "indexed": true },
+            { "name": "amount", "type": "uint256", "indexed": false }
+        ],
+        "anonymous": false
+    },
+    {
+        "type": "event",
+        "name": "CreatorOptedIn",
+        "inputs": [
+            { "name": "creator", "type": "address", "indexed": true },
+            { "name": "stakeAmount", "type": "uint256", "indexed": false }
+        ],
+        "anonymous": false
+    },
+    {
+        "type": "event",
+        "name": "CreatorRejected",
+        "inputs": [{ "name": "creator", "type": "address", "indexed": true }],
+        "anonymous": false
+    },
+    {
+        "type": "event",
+        "name": "MilestoneCompleted",
+        "inputs": [
+            { "name": "milestoneId", "type": "uint256", "indexed": true },
+            { "name": "proofHash", "type": "bytes32", "indexed": false }
+        ],
+        "anonymous": false
+    },
+    {
+        "type": "event",
+        "name": "OperatorUpdated",
+        "inputs": [
+            { "name": "oldOperator", "type": "address", "indexed": true },
+            { "name": "newOperator", "type": "address", "indexed": true }
+        ],
+        "anonymous": false
+    },
+    {
+        "type": "event",
+        "name": "Paused",
+        "inputs": [{ "name": "account", "type": "address", "indexed": false }],
+        "anonymous": false
+    },
+    {
+        "type": "event",
+        "name": "SplitCreated",
+        "inputs": [{ "name": "splitAddress", "type": "address", "indexed": false }],
+        "anonymous": false
+    },
+    {
+        "type": "event",
+        "name": "StrategyCompleted",
+        "inputs": [{ "name": "success", "type": "bool", "indexed": false }],
+        "anonymous": false
+    },
+    {
+        "type": "event",
+        "name": "TokensReceived",
+        "inputs": [
+            { "name": "operator", "type": "address", "indexed": true },
+            { "name": "amount", "type": "uint256", "indexed": false }
+        ],
+        "anonymous": false
+    },
+    {
+        "type": "event",
+        "name": "TokensStaked",
+        "inputs": [
+            { "name": "contributor", "type": "address", "indexed": true },
+            { "name": "amount", "type": "uint256", "indexed": false }
+        ],
+        "anonymous": false
+    },
+    {
+        "type": "event",
+        "name": "TokensUnstaked",
+        "inputs": [
+            { "name": "contributor", "type": "address", "indexed": true },
+            { "name": "amount", "type": "uint256", "indexed": false }
+        ],
+        "anonymous": false
+    },
+    {
+        "type": "event",
+        "name": "Unpaused",
+        "inputs": [{ "name": "account", "type": "address", "indexed": false }],
+        "anonymous": false
+    },
+    {
+        "type": "event",
+        "name": "UnwindInitiated",
+        "inputs": [{ "name": "timestamp", "type": "uint256", "indexed": false }],
+        "anonymous": false
+    },
+    {
+        "type": "function",
+        "name": "COOLDOWN",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "uint32" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "CREATOR_FEE_BPS",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "uint32" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "MAX_CONTRIBUTORS",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "uint256" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "MIN_CONTRIBUTION",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "uint256" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "MIN_CREATOR_STAKE",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "uint256" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "PENDING_CONTRIBUTION_TIMEOUT",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "uint256" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "PROTOCOL_FEE_BPS",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "uint32" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "SLIPPAGE_BPS",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "uint32" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "cachedSplitAccounts",
+        "inputs": [{ "name": "", "type": "uint256" }],
+        "outputs": [{ "name": "", "type": "address" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "cachedSplitAllocations",
+        "inputs": [{ "name": "", "type": "uint256" }],
+        "outputs": [{ "name": "", "type": "uint32" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "completeMilestone",
+        "inputs": [
+            { "name": "milestoneId", "type": "uint256" },
+            { "name": "proofHash", "type": "bytes32" }
+        ],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "confirmSwap",
+        "inputs": [
+            { "name": "contributor", "type": "address" },
+            { "name": "ethAmount", "type": "uint256" },
+            { "name": "tokensReceived", "type": "uint256" },
+            { "name": "minExpected", "type": "uint256" }
+        ],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "contribute",
+        "inputs": [],
+        "outputs": [],
+        "stateMutability": "payable"
+    },
+    {
+        "type": "function",
+        "name": "contributorList",
+        "inputs": [{ "name": "", "type": "uint256" }],
+        "outputs": [{ "name": "", "type": "address" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "contributors",
+        "inputs": [{ "name": "", "type": "address" }],
+        "outputs": [
+            { "name": "ethContributed", "type": "uint256" },
+            { "name": "tokensOwed", "type": "uint256" },
+            { "name": "hasWithdrawn", "type": "bool" }
+        ],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "creatorStake",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "uint256" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "creatorStatus",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "uint8" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "deadline",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "uint256" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "designatedCreator",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "address" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "distribute",
+        "inputs": [],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "ethUsdPriceFeed",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "address" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "executeUnwind",
+        "inputs": [],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "factory",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "address" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "getContributorInfo",
+        "inputs": [{ "name": "contributor", "type": "address" }],
+        "outputs": [
+            { "name": "ethContributed", "type": "uint256" },
+            { "name": "tokensOwed", "type": "uint256" },
+            { "name": "pendingAmount", "type": "uint256" },
+            { "name": "hasWithdrawn", "type": "bool" }
+        ],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "getContributors",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "address[]" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "getFundingProgress",
+        "inputs": [],
+        "outputs": [
+            { "name": "current", "type": "uint256" },
+            { "name": "target", "type": "uint256" },
+            { "name": "percentage", "type": "uint256" }
+        ],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "getMilestones",
+        "inputs": [],
+        "outputs": [
+            {
+                "name": "",
+                "type": "tuple[]",
+                "components": [
+                    { "name": "proofHash", "type": "bytes32" },
+                    { "name": "unlockBps", "type": "uint32" },
+                    { "name": "completed", "type": "bool" }
+                ]
+            }
+        ],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "getPendingContributors",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "address[]" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "getProgress",
+        "inputs": [],
+        "outputs": [
+            { "name": "completed", "type": "uint256" },
+            { "name": "total", "type": "uint256" }
+        ],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "getSignalAccess",
+        "inputs": [{ "name": "contributor", "type": "address" }],
+        "outputs": [
+            { "name": "hasAccess", "type": "bool" },
+            { "name": "tier", "type": "uint256" }
+        ],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "getStrategyInfo",
+        "inputs": [],
+        "outputs": [
+            { "name": "currentStatus", "type": "uint8" },
+            { "name": "currentCreatorStatus", "type": "uint8" },
+            { "name": "currentCreatorStake", "type": "uint256" },
+            { "name": "currentTotalContributed", "type": "uint256" },
+            { "name": "currentTotalTokens", "type": "uint256" },
+            { "name": "contributorCount", "type": "uint256" },
+            { "name": "timeRemaining", "type": "uint256" }
+        ],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "initiateUnwind",
+        "inputs": [],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "milestones",
+        "inputs": [{ "name": "", "type": "uint256" }],
+        "outputs": [
+            { "name": "proofHash", "type": "bytes32" },
+            { "name": "unlockBps", "type": "uint32" },
+            { "name": "completed", "type": "bool" }
+        ],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "operator",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "address" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "operatorBalances",
+        "inputs": [{ "name": "", "type": "address" }],
+        "outputs": [{ "name": "", "type": "uint256" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "optIn",
+        "inputs": [],
+        "outputs": [],
+        "stateMutability": "payable"
+    },
+    {
+        "type": "function",
+        "name": "pause",
+        "inputs": [],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "paused",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "bool" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "pendingContributions",
+        "inputs": [{ "name": "", "type": "address" }],
+        "outputs": [{ "name": "", "type": "uint256" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "pendingTimestamp",
+        "inputs": [{ "name": "", "type": "address" }],
+        "outputs": [{ "name": "", "type": "uint256" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "priceFeed",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "address" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "receiveTokens",
+        "inputs": [{ "name": "amount", "type": "uint256" }],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "refundPendingBatch",
+        "inputs": [
+            { "name": "startIndex", "type": "uint256" },
+            { "name": "batchSize", "type": "uint256" }
+        ],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "refundPendingContribution",
+        "inputs": [],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "rejectStrategy",
+        "inputs": [],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "rescueETH",
+        "inputs": [{ "name": "amount", "type": "uint256" }],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "rescueTokens",
+        "inputs": [
+            { "name": "_token", "type": "address" },
+            { "name": "amount", "type": "uint256" }
+        ],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "setOperator",
+        "inputs": [{ "name": "newOperator", "type": "address" }],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "splitAddress",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "address" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "splitArraysCached",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "bool" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "splitMain",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "address" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "stakeForSignals",
+        "inputs": [{ "name": "amount", "type": "uint256" }],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "stakeTimestamp",
+        "inputs": [{ "name": "", "type": "address" }],
+        "outputs": [{ "name": "", "type": "uint256" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "stakedTokens",
+        "inputs": [{ "name": "", "type": "address" }],
+        "outputs": [{ "name": "", "type": "uint256" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "status",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "uint8" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "strategyCreator",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "address" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "targetAmount",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "uint256" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "token",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "address" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "totalContributed",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "uint256" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "totalTokensHeld",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "uint256" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "unpause",
+        "inputs": [],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "unstakeTokens",
+        "inputs": [{ "name": "amount", "type": "uint256" }],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "unwindInitiatedAt",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "uint256" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "withdrawOperatorBalance",
+        "inputs": [],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "receive",
+        "stateMutability": "payable"
+    }
+] as const;
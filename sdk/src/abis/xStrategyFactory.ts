@@ -0,0 +1,458 @@
+// Generated from contracts/src/XStrategyFactory.sol by scripts/sync-abis.js; do not edit by hand
+export const XStrategyFactoryABI = [
+    {
+        "type": "constructor",
+        "inputs": [
+            { "name": "_splitMain", "type": "address" },
+            { "name": "_protocolFeeRecipient", "type": "address" },
+            { "name": "_defaultOperator", "type": "address" }
+        ],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "error",
+        "name": "EnforcedPause",
+        "inputs": []
+    },
+    {
+        "type": "error",
+        "name": "ExpectedPause",
+        "inputs": []
+    },
+    {
+        "type": "error",
+        "name": "FeeTooHigh",
+        "inputs": []
+    },
+    {
+        "type": "error",
+        "name": "InvalidFeeRecipient",
+        "inputs": []
+    },
+    {
+        "type": "error",
+        "name": "InvalidOperator",
+        "inputs": []
+    },
+    {
+        "type": "error",
+        "name": "NotAStrategy",
+        "inputs": []
+    },
+    {
+        "type": "error",
+        "name": "OwnableInvalidOwner",
+        "inputs": [{ "name": "owner", "type": "address" }]
+    },
+    {
+        "type": "error",
+        "name": "OwnableUnauthorizedAccount",
+        "inputs": [{ "name": "account", "type": "address" }]
+    },
+    {
+        "type": "event",
+        "name": "ContributorReputationUpdated",
+        "inputs": [
+            { "name": "contributor", "type": "address", "indexed": true },
+            { "name": "success", "type": "bool", "indexed": false },
+            { "name": "amount", "type": "uint256", "indexed": false },
+            { "name": "wasEarly", "type": "bool", "indexed": false }
+        ],
+        "anonymous": false
+    },
+    {
+        "type": "event",
+        "name": "CreatorReputationUpdated",
+        "inputs": [
+            { "name": "creator", "type": "address", "indexed": true },
+            { "name": "success", "type": "bool", "indexed": false },
+            { "name": "contributions", "type": "uint256", "indexed": false }
+        ],
+        "anonymous": false
+    },
+    {
+        "type": "event",
+        "name": "DefaultOperatorUpdated",
+        "inputs": [
+            { "name": "oldOperator", "type": "address", "indexed": true },
+            { "name": "newOperator", "type": "address", "indexed": true }
+        ],
+        "anonymous": false
+    },
+    {
+        "type": "event",
+        "name": "MinCreatorStakeUpdated",
+        "inputs": [
+            { "name": "oldStake", "type": "uint256", "indexed": false },
+            { "name": "newStake", "type": "uint256", "indexed": false }
+        ],
+        "anonymous": false
+    },
+    {
+        "type": "event",
+        "name": "OperatorAdded",
+        "inputs": [{ "name": "operator", "type": "address", "indexed": true }],
+        "anonymous": false
+    },
+    {
+        "type": "event",
+        "name": "OperatorRemoved",
+        "inputs": [{ "name": "operator", "type": "address", "indexed": true }],
+        "anonymous": false
+    },
+    {
+        "type": "event",
+        "name": "OwnershipTransferred",
+        "inputs": [
+            { "name": "previousOwner", "type": "address", "indexed": true },
+            { "name": "newOwner", "type": "address", "indexed": true }
+        ],
+        "anonymous": false
+    },
+    {
+        "type": "event",
+        "name": "Paused",
+        "inputs": [{ "name": "account", "type": "address", "indexed": false }],
+        "anonymous": false
+    },
+    {
+        "type": "event",
+        "name": "ProtocolFeeUpdated",
+        "inputs": [
+            { "name": "oldFee", "type": "uint256", "indexed": false },
+            { "name": "newFee", "type": "uint256", "indexed": false }
+        ],
+        "anonymous": false
+    },
+    {
+        "type": "event",
+        "name": "StrategyCreated",
+        "inputs": [
+            { "name": "strategy", "type": "address", "indexed": true },
+            { "name": "strategyCreator", "type": "address", "indexed": true },
+            { "name": "designatedCreator", "type": "address", "indexed": true },
+            { "name": "token", "type": "address", "indexed": false },
+            { "name": "targetAmount", "type": "uint256", "indexed": false },
+            { "name": "deadline", "type": "uint256", "indexed": false }
+        ],
+        "anonymous": false
+    },
+    {
+        "type": "event",
+        "name": "StrategyPaused",
+        "inputs": [{ "name": "strategy", "type": "address", "indexed": true }],
+        "anonymous": false
+    },
+    {
+        "type": "event",
+        "name": "StrategyUnpaused",
+        "inputs": [{ "name": "strategy", "type": "address", "indexed": true }],
+        "anonymous": false
+    },
+    {
+        "type": "event",
+        "name": "Unpaused",
+        "inputs": [{ "name": "account", "type": "address", "indexed": false }],
+        "anonymous": false
+    },
+    {
+        "type": "function",
+        "name": "addOperator",
+        "inputs": [{ "name": "operator", "type": "address" }],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "allStrategies",
+        "inputs": [{ "name": "", "type": "uint256" }],
+        "outputs": [{ "name": "", "type": "address" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "contributorReputation",
+        "inputs": [{ "name": "", "type": "address" }],
+        "outputs": [
+            { "name": "strategiesBacked", "type": "uint256" },
+            { "name": "successfulBacks", "type": "uint256" },
+            { "name": "totalContributed", "type": "uint256" },
+            { "name": "earlyParticipations", "type": "uint256" }
+        ],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "createStrategy",
+        "inputs": [
+            { "name": "token", "type": "address" },
+            { "name": "designatedCreator", "type": "address" },
+            { "name": "targetAmount", "type": "uint256" },
+            { "name": "deadline", "type": "uint256" },
+            { "name": "milestoneUnlockBps", "type": "uint32[]" },
+            { "name": "priceFeed", "type": "address" },
+            { "name": "ethUsdPriceFeed", "type": "address" }
+        ],
+        "outputs": [{ "name": "strategy", "type": "address" }],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "creatorReputation",
+        "inputs": [{ "name": "", "type": "address" }],
+        "outputs": [
+            { "name": "strategiesCreated", "type": "uint256" },
+            { "name": "strategiesSucceeded", "type": "uint256" },
+            { "name": "strategiesFailed", "type": "uint256" },
+            { "name": "totalContributionsReceived", "type": "uint256" },
+            { "name": "lastActiveTimestamp", "type": "uint256" }
+        ],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "creatorStrategies",
+        "inputs": [
+            { "name": "", "type": "address" },
+            { "name": "", "type": "uint256" }
+        ],
+        "outputs": [{ "name": "", "type": "address" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "defaultOperator",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "address" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "getAllStrategies",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "address[]" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "getContributorScore",
+        "inputs": [{ "name": "contributor", "type": "address" }],
+        "outputs": [{ "name": "score", "type": "uint256" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "getCreatorScore",
+        "inputs": [{ "name": "creator", "type": "address" }],
+        "outputs": [{ "name": "score", "type": "uint256" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "getCreatorStrategies",
+        "inputs": [{ "name": "creator", "type": "address" }],
+        "outputs": [{ "name": "", "type": "address[]" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "getRequiredStake",
+        "inputs": [{ "name": "creator", "type": "address" }],
+        "outputs": [{ "name": "", "type": "uint256" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "getStrategiesCount",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "uint256" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "getStrategiesPaginated",
+        "inputs": [
+            { "name": "offset", "type": "uint256" },
+            { "name": "limit", "type": "uint256" }
+        ],
+        "outputs": [{ "name": "", "type": "address[]" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "isOperator",
+        "inputs": [{ "name": "", "type": "address" }],
+        "outputs": [{ "name": "", "type": "bool" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "isStrategy",
+        "inputs": [{ "name": "", "type": "address" }],
+        "outputs": [{ "name": "", "type": "bool" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "minCreatorStake",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "uint256" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "owner",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "address" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "pause",
+        "inputs": [],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "pauseStrategy",
+        "inputs": [{ "name": "strategy", "type": "address" }],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "paused",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "bool" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "protocolFeeBps",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "uint256" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "protocolFeeRecipient",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "address" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "refundPendingBatch",
+        "inputs": [
+            { "name": "strategy", "type": "address" },
+            { "name": "startIndex", "type": "uint256" },
+            { "name": "batchSize", "type": "uint256" }
+        ],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "removeOperator",
+        "inputs": [{ "name": "operator", "type": "address" }],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "renounceOwnership",
+        "inputs": [],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "setDefaultOperator",
+        "inputs": [{ "name": "newOperator", "type": "address" }],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "setMinCreatorStake",
+        "inputs": [{ "name": "newMinStake", "type": "uint256" }],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "setProtocolFee",
+        "inputs": [{ "name": "newFeeBps", "type": "uint256" }],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "setProtocolFeeRecipient",
+        "inputs": [{ "name": "newRecipient", "type": "address" }],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "splitMain",
+        "inputs": [],
+        "outputs": [{ "name": "", "type": "address" }],
+        "stateMutability": "view"
+    },
+    {
+        "type": "function",
+        "name": "transferOwnership",
+        "inputs": [{ "name": "newOwner", "type": "address" }],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "unpause",
+        "inputs": [],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "unpauseStrategy",
+        "inputs": [{ "name": "strategy", "type": "address" }],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "updateContributorReputation",
+        "inputs": [
+            { "name": "contributor", "type": "address" },
+            { "name": "success", "type": "bool" },
+            { "name": "amount", "type": "uint256" },
+            { "name": "wasEarly", "type": "bool" }
+        ],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "updateCreatorReputation",
+        "inputs": [
+            { "name": "creator", "type": "address" },
+            { "name": "success", "type": "bool" },
+            { "name": "totalContributions", "type": "uint256" }
+        ],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    },
+    {
+        "type": "function",
+        "name": "updateStrategyOperator",
+        "inputs": [
+            { "name": "strategy", "type": "address" },
+            { "name": "newOperator", "type": "address" }
+        ],
+        "outputs": [],
+        "stateMutability": "nonpayable"
+    }
+] as const;
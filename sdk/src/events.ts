@@ -0,0 +1,49 @@
+import { decodeEventLog, parseEventLogs, type Log, type ParseEventLogsReturnType } from 'viem';
+import { XStrategyABI } from './abis/xStrategy';
+import { XStrategyFactoryABI } from './abis/xStrategyFactory';
+
+type RawLog = Pick<Log, 'data' | 'topics'>;
+
+export type StrategyEventName = Extract<typeof XStrategyABI[number], { type: 'event' }>['name'];
+export type FactoryEventName = Extract<typeof XStrategyFactoryABI[number], { type: 'event' }>['name'];
+
+export type StrategyEvent = ParseEventLogsReturnType<typeof XStrategyABI>[number];
+export type FactoryEvent = ParseEventLogsReturnType<typeof XStrategyFactoryABI>[number];
+
+/**
+ * Decode a single XStrategy log. Returns undefined for logs that are not XStrategy events
+ * rather than throwing, since receipts mix in token and split logs.
+ */
+export function decodeStrategyEvent(log: RawLog) {
+    try {
+        return decodeEventLog({ abi: XStrategyABI, data: log.data, topics: log.topics });
+    } catch {
+        return undefined;
+    }
+}
+
+export function decodeFactoryEvent(log: RawLog) {
+    try {
+        return decodeEventLog({ abi: XStrategyFactoryABI, data: log.data, topics: log.topics });
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Decode every XStrategy event in a list of logs (e.g. a receipt's), optionally
+ * only those named. Logs are kept with their block and tx metadata.
+ */
+export function parseStrategyEvents<const N extends StrategyEventName | StrategyEventName[] | undefined = undefined>(
+    logs: Log[],
+    eventName?: N
+) {
+    return parseEventLogs({ abi: XStrategyABI, logs, eventName });
+}
+
+export function parseFactoryEvents<const N extends FactoryEventName | FactoryEventName[] | undefined = undefined>(
+    logs: Log[],
+    eventName?: N
+) {
+    return parseEventLogs({ abi: XStrategyFactoryABI, logs, eventName });
+}
@@ -0,0 +1,8 @@
+export { XStrategyABI } from './abis/xStrategy';
+export { XStrategyFactoryABI } from './abis/xStrategyFactory';
+export * from './status';
+export * from './strategyStatus';
+export * from './reads';
+export * from './events';
+export * as writes from './writes';
+export type { CreateStrategyParams } from './writes';
@@ -0,0 +1,151 @@
+import type { PublicClient } from 'viem';
+import { XStrategyABI } from './abis/xStrategy';
+import { XStrategyFactoryABI } from './abis/xStrategyFactory';
+import { ContractStatus, CreatorStatus, toContractStatus, toCreatorStatus } from './status';
+import type { OnChainStrategyState } from './strategyStatus';
+
+/**
+ * Any viem client that can read contracts, wagmi's usePublicClient() result included.
+ */
+export type ReadClient = Pick<PublicClient, 'readContract'>;
+
+type Address = `0x${string}`;
+
+export interface StrategyInfo {
+    status: ContractStatus;
+    creatorStatus: CreatorStatus;
+    creatorStake: bigint;
+    totalContributed: bigint;
+    totalTokensHeld: bigint;
+    contributorCount: bigint;
+    timeRemaining: bigint; // Seconds until the deadline, 0 once passed
+}
+
+export interface MilestoneInfo {
+    proofHash: `0x${string}`;
+    unlockBps: number;
+    completed: boolean;
+}
+
+export interface ContributorInfo {
+    ethContributed: bigint;
+    tokensOwed: bigint;
+    pendingAmount: bigint;
+    hasWithdrawn: boolean;
+}
+
+export interface FundingProgress {
+    current: bigint;
+    target: bigint;
+    percentage: bigint; // Whole percent, may exceed 100
+}
+
+export async function getStrategyInfo(client: ReadClient, strategy: Address): Promise<StrategyInfo> {
+    const [status, creatorStatus, creatorStake, totalContributed, totalTokensHeld, contributorCount, timeRemaining] =
+        await client.readContract({ address: strategy, abi: XStrategyABI, functionName: 'getStrategyInfo' });
+    return {
+        status: toContractStatus(status),
+        creatorStatus: toCreatorStatus(creatorStatus),
+        creatorStake,
+        totalContributed,
+        totalTokensHeld,
+        contributorCount,
+        timeRemaining
+    };
+}
+
+/**
+ * Everything deriveStrategyStatus needs, in one round of reads.
+ */
+export async function readStrategyState(client: ReadClient, strategy: Address): Promise<OnChainStrategyState> {
+    const [info, targetAmount, deadline, milestones] = await Promise.all([
+        getStrategyInfo(client, strategy),
+        client.readContract({ address: strategy, abi: XStrategyABI, functionName: 'targetAmount' }),
+        client.readContract({ address: strategy, abi: XStrategyABI, functionName: 'deadline' }),
+        getMilestones(client, strategy)
+    ]);
+    return {
+        status: info.status,
+        creatorStatus: info.creatorStatus,
+        deadline,
+        totalContributed: info.totalContributed,
+        targetAmount,
+        milestones
+    };
+}
+
+/**
+ * @param blockNumber Read as of this block instead of the latest, e.g. when indexing historical events
+ */
+export async function getMilestones(client: ReadClient, strategy: Address, blockNumber?: bigint): Promise<MilestoneInfo[]> {
+    const milestones = await client.readContract({
+        address: strategy,
+        abi: XStrategyABI,
+        functionName: 'getMilestones',
+        blockNumber
+    });
+    return milestones.map(({ proofHash, unlockBps, completed }) => ({ proofHash, unlockBps, completed }));
+}
+
+export async function getFundingProgress(client: ReadClient, strategy: Address): Promise<FundingProgress> {
+    const [current, target, percentage] = await client.readContract({
+        address: strategy,
+        abi: XStrategyABI,
+        functionName: 'getFundingProgress'
+    });
+    return { current, target, percentage };
+}
+
+export async function getContributorInfo(client: ReadClient, strategy: Address, contributor: Address): Promise<ContributorInfo> {
+    const [ethContributed, tokensOwed, pendingAmount, hasWithdrawn] = await client.readContract({
+        address: strategy,
+        abi: XStrategyABI,
+        functionName: 'getContributorInfo',
+        args: [contributor]
+    });
+    return { ethContributed, tokensOwed, pendingAmount, hasWithdrawn };
+}
+
+/**
+ * A contributor's unconfirmed ETH and when it arrived (unix seconds, 0 if none).
+ */
+export async function getPendingContribution(client: ReadClient, strategy: Address, contributor: Address) {
+    const [amount, since] = await Promise.all([
+        client.readContract({ address: strategy, abi: XStrategyABI, functionName: 'pendingContributions', args: [contributor] }),
+        client.readContract({ address: strategy, abi: XStrategyABI, functionName: 'pendingTimestamp', args: [contributor] })
+    ]);
+    return { amount, since };
+}
+
+export async function getSignalAccess(client: ReadClient, strategy: Address, contributor: Address) {
+    const [hasAccess, tier] = await client.readContract({
+        address: strategy,
+        abi: XStrategyABI,
+        functionName: 'getSignalAccess',
+        args: [contributor]
+    });
+    return { hasAccess, tier };
+}
+
+export function getAllStrategies(client: ReadClient, factory: Address) {
+    return client.readContract({ address: factory, abi: XStrategyFactoryABI, functionName: 'getAllStrategies' });
+}
+
+export function getStrategiesPaginated(client: ReadClient, factory: Address, offset: bigint, limit: bigint) {
+    return client.readContract({ address: factory, abi: XStrategyFactoryABI, functionName: 'getStrategiesPaginated', args: [offset, limit] });
+}
+
+export function getCreatorStrategies(client: ReadClient, factory: Address, creator: Address) {
+    return client.readContract({ address: factory, abi: XStrategyFactoryABI, functionName: 'getCreatorStrategies', args: [creator] });
+}
+
+/**
+ * Creator execution score (0-100) and the stake the factory requires of them.
+ */
+export async function getCreatorReputation(client: ReadClient, factory: Address, creator: Address) {
+    const [score, requiredStake] = await Promise.all([
+        client.readContract({ address: factory, abi: XStrategyFactoryABI, functionName: 'getCreatorScore', args: [creator] }),
+        client.readContract({ address: factory, abi: XStrategyFactoryABI, functionName: 'getRequiredStake', args: [creator] })
+    ]);
+    return { score, requiredStake };
+}
@@ -0,0 +1,45 @@
+// Mirrors XStrategy.Status
+export enum ContractStatus {
+    PENDING_CREATOR = 0,
+    ACTIVE = 1,
+    COMPLETED_SUCCESS = 2,
+    COMPLETED_FAILURE = 3,
+    UNWINDING = 4
+}
+
+// Mirrors XStrategy.CreatorStatus
+export enum CreatorStatus {
+    PENDING = 0,
+    OPTED_IN = 1,
+    REJECTED = 2
+}
+
+export type ContractStatusName = keyof typeof ContractStatus;
+export type CreatorStatusName = keyof typeof CreatorStatus;
+
+/**
+ * Narrow a raw uint8 from the contract to ContractStatus. Throws on values the
+ * enum does not know, which means the contract gained a status the SDK lacks.
+ */
+export function toContractStatus(value: number | bigint): ContractStatus {
+    const status = Number(value);
+    if (ContractStatus[status] === undefined) throw new Error(`Unknown XStrategy status: ${value}`);
+    return status;
+}
+
+export function toCreatorStatus(value: number | bigint): CreatorStatus {
+    const status = Number(value);
+    if (CreatorStatus[status] === undefined) throw new Error(`Unknown XStrategy creator status: ${value}`);
+    return status;
+}
+
+/**
+ * The enum member name, e.g. 'COMPLETED_SUCCESS'. This is the form the indexer stores.
+ */
+export function contractStatusName(value: ContractStatus | number | bigint): ContractStatusName {
+    return ContractStatus[toContractStatus(value)] as ContractStatusName;
+}
+
+export function creatorStatusName(value: CreatorStatus | number | bigint): CreatorStatusName {
+    return CreatorStatus[toCreatorStatus(value)] as CreatorStatusName;
+}
@@ -0,0 +1,113 @@
+import { ContractStatus, CreatorStatus, toContractStatus, toCreatorStatus } from './status';
+
+/**
+ * Lifecycle status as the product presents it. Finer than the contract's Status:
+ * ACTIVE splits into FUNDING / ACTIVE / ENDING_SOON, and a rejected or
+ * never-accepted strategy is CANCELLED. DRAFT is for strategies not yet deployed,
+ * so it is never derived from chain state.
+ */
+export enum StrategyStatus {
+    PENDING_CREATOR = 'pending_creator',
+    DRAFT = 'draft',
+    FUNDING = 'funding', // Raising funds to hit threshold
+    ACTIVE = 'active', // Threshold hit, execution phase
+    ENDING_SOON = 'ending_soon', // < 48h remaining
+    COMPLETED_SUCCESS = 'completed_success',
+    COMPLETED_FAILURE = 'completed_failure',
+    UNWINDING = 'unwinding',
+    CANCELLED = 'cancelled'
+}
+
+export const ENDING_SOON_SECONDS = 48 * 60 * 60;
+
+/**
+ * What the derivation needs from a deployed strategy. readStrategyState fetches
+ * it; the indexer assembles it from events.
+ */
+export interface OnChainStrategyState {
+    status: ContractStatus | number | bigint;
+    creatorStatus: CreatorStatus | number | bigint;
+    deadline: bigint; // Unix seconds
+    totalContributed: bigint; // Confirmed ETH
+    targetAmount: bigint;
+    milestones?: readonly { completed: boolean }[]; // Omit when unknown; counts are then 0
+}
+
+export interface DerivedStrategyStatus {
+    status: StrategyStatus;
+    fundingPercentage: number; // 0-100, whole percent
+    timeRemaining: number; // Seconds until the deadline, 0 once passed
+    isEndingSoon: boolean;
+    isFullyFunded: boolean;
+    milestonesCompleted: number;
+    milestonesTotal: number;
+}
+
+/**
+ * The one mapping from on-chain state to StrategyStatus and its computed fields.
+ * Time-dependent (FUNDING vs ENDING_SOON), so pass the block timestamp when
+ * deriving for a past block.
+ * @param now Unix seconds; defaults to the local clock
+ */
+export function deriveStrategyStatus(
+    state: OnChainStrategyState,
+    now: number | bigint = Math.floor(Date.now() / 1000)
+): DerivedStrategyStatus {
+    const contractStatus = toContractStatus(state.status);
+    const creatorStatus = toCreatorStatus(state.creatorStatus);
+
+    const remaining = state.deadline - BigInt(now);
+    const timeRemaining = remaining > 0n ? Number(remaining) : 0;
+    const isFullyFunded = state.targetAmount > 0n && state.totalContributed >= state.targetAmount;
+    const fundingPercentage = state.targetAmount > 0n
+        ? Math.min(100, Number((state.totalContributed * 100n) / state.targetAmount))
+        : 0;
+    const isLive = contractStatus === ContractStatus.ACTIVE;
+    const isEndingSoon = isLive && timeRemaining > 0 && timeRemaining <= ENDING_SOON_SECONDS;
+
+    return {
+        status: lifecycleStatus(contractStatus, creatorStatus, timeRemaining, isFullyFunded, isEndingSoon),
+        fundingPercentage,
+        timeRemaining,
+        isEndingSoon,
+        isFullyFunded,
+        milestonesCompleted: state.milestones?.filter(milestone => milestone.completed).length ?? 0,
+        milestonesTotal: state.milestones?.length ?? 0
+    };
+}
+
+const OPEN_STATUSES = [StrategyStatus.FUNDING, StrategyStatus.ACTIVE, StrategyStatus.ENDING_SOON];
+
+/**
+ * Whether contribute() would be accepted: the contract is ACTIVE and its deadline has not passed.
+ */
+export function acceptsContributions(strategy: { status: StrategyStatus; timeRemaining?: number }) {
+    return OPEN_STATUSES.includes(strategy.status) && (strategy.timeRemaining === undefined || strategy.timeRemaining > 0);
+}
+
+function lifecycleStatus(
+    contractStatus: ContractStatus,
+    creatorStatus: CreatorStatus,
+    timeRemaining: number,
+    isFullyFunded: boolean,
+    isEndingSoon: boolean
+): StrategyStatus {
+    // rejectStrategy marks the strategy COMPLETED_FAILURE, but nothing was ever at stake
+    if (creatorStatus === CreatorStatus.REJECTED) return StrategyStatus.CANCELLED;
+
+    switch (contractStatus) {
+        case ContractStatus.PENDING_CREATOR:
+            // The creator can still opt in after the deadline, but nothing could then be funded
+            return timeRemaining > 0 ? StrategyStatus.PENDING_CREATOR : StrategyStatus.CANCELLED;
+        case ContractStatus.ACTIVE:
+            if (isEndingSoon) return StrategyStatus.ENDING_SOON;
+            // Past the deadline it stays here until initiateUnwind is called
+            return isFullyFunded ? StrategyStatus.ACTIVE : StrategyStatus.FUNDING;
+        case ContractStatus.COMPLETED_SUCCESS:
+            return StrategyStatus.COMPLETED_SUCCESS;
+        case ContractStatus.COMPLETED_FAILURE:
+            return StrategyStatus.COMPLETED_FAILURE;
+        case ContractStatus.UNWINDING:
+            return StrategyStatus.UNWINDING;
+    }
+}
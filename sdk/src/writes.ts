@@ -0,0 +1,114 @@
+import { zeroAddress, type ContractFunctionName } from 'viem';
+import { XStrategyABI } from './abis/xStrategy';
+import { XStrategyFactoryABI } from './abis/xStrategyFactory';
+
+/**
+ * Typed write requests. Each builder returns { address, abi, functionName, args, value }
+ * ready for viem's writeContract/simulateContract, wagmi's writeContractAsync or
+ * encodeFunctionData; callers add account and chain. Building requests rather than
+ * sending them keeps the SDK free of any wallet.
+ */
+
+type Address = `0x${string}`;
+
+export interface CreateStrategyParams {
+    token: Address;
+    designatedCreator: Address;
+    targetAmount: bigint;
+    deadline: bigint; // Unix seconds
+    milestoneUnlockBps: number[]; // Must sum to 10000
+    priceFeed?: Address; // Token/ETH feed for swap validation; none by default
+    ethUsdPriceFeed?: Address;
+}
+
+function strategyCall<const F extends ContractFunctionName<typeof XStrategyABI, 'nonpayable' | 'payable'>>(strategy: Address, functionName: F) {
+    return { address: strategy, abi: XStrategyABI, functionName } as const;
+}
+
+// ============== FACTORY ==============
+
+export function createStrategy(factory: Address, params: CreateStrategyParams) {
+    return {
+        address: factory,
+        abi: XStrategyFactoryABI,
+        functionName: 'createStrategy',
+        args: [
+            params.token,
+            params.designatedCreator,
+            params.targetAmount,
+            params.deadline,
+            params.milestoneUnlockBps,
+            params.priceFeed ?? zeroAddress,
+            params.ethUsdPriceFeed ?? zeroAddress
+        ]
+    } as const;
+}
+
+export function refundPendingBatch(factory: Address, strategy: Address, startIndex: bigint, batchSize: bigint) {
+    return {
+        address: factory,
+        abi: XStrategyFactoryABI,
+        functionName: 'refundPendingBatch',
+        args: [strategy, startIndex, batchSize]
+    } as const;
+}
+
+// ============== CREATOR ==============
+
+export function optIn(strategy: Address, stake: bigint) {
+    return { ...strategyCall(strategy, 'optIn'), value: stake } as const;
+}
+
+export function rejectStrategy(strategy: Address) {
+    return strategyCall(strategy, 'rejectStrategy');
+}
+
+export function completeMilestone(strategy: Address, milestoneId: bigint, proofHash: `0x${string}`) {
+    return { ...strategyCall(strategy, 'completeMilestone'), args: [milestoneId, proofHash] } as const;
+}
+
+// ============== CONTRIBUTOR ==============
+
+export function contribute(strategy: Address, value: bigint) {
+    return { ...strategyCall(strategy, 'contribute'), value } as const;
+}
+
+export function refundPendingContribution(strategy: Address) {
+    return strategyCall(strategy, 'refundPendingContribution');
+}
+
+export function stakeForSignals(strategy: Address, amount: bigint) {
+    return { ...strategyCall(strategy, 'stakeForSignals'), args: [amount] } as const;
+}
+
+export function unstakeTokens(strategy: Address, amount: bigint) {
+    return { ...strategyCall(strategy, 'unstakeTokens'), args: [amount] } as const;
+}
+
+// ============== OPERATOR ==============
+
+export function confirmSwap(strategy: Address, contributor: Address, ethAmount: bigint, tokensReceived: bigint, minExpected: bigint) {
+    return { ...strategyCall(strategy, 'confirmSwap'), args: [contributor, ethAmount, tokensReceived, minExpected] } as const;
+}
+
+export function receiveTokens(strategy: Address, amount: bigint) {
+    return { ...strategyCall(strategy, 'receiveTokens'), args: [amount] } as const;
+}
+
+export function withdrawOperatorBalance(strategy: Address) {
+    return strategyCall(strategy, 'withdrawOperatorBalance');
+}
+
+// ============== LIFECYCLE (permissionless) ==============
+
+export function initiateUnwind(strategy: Address) {
+    return strategyCall(strategy, 'initiateUnwind');
+}
+
+export function executeUnwind(strategy: Address) {
+    return strategyCall(strategy, 'executeUnwind');
+}
+
+export function distribute(strategy: Address) {
+    return strategyCall(strategy, 'distribute');
+}
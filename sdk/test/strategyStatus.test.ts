@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ContractStatus, CreatorStatus } from '../src/status';
+import { deriveStrategyStatus, OnChainStrategyState, StrategyStatus, ENDING_SOON_SECONDS } from '../src/strategyStatus';
+
+const NOW = 1_700_000_000;
+const DAY = 24 * 60 * 60;
+
+function state(patch: Partial<OnChainStrategyState>): OnChainStrategyState {
+    return {
+        status: ContractStatus.ACTIVE,
+        creatorStatus: CreatorStatus.OPTED_IN,
+        deadline: BigInt(NOW + 30 * DAY),
+        totalContributed: 0n,
+        targetAmount: 10n ** 18n,
+        ...patch
+    };
+}
+
+test('an active strategy below target is funding, at target active', () => {
+    assert.equal(deriveStrategyStatus(state({ totalContributed: 10n ** 17n }), NOW).status, StrategyStatus.FUNDING);
+
+    const funded = deriveStrategyStatus(state({ totalContributed: 2n * 10n ** 18n }), NOW);
+    assert.equal(funded.status, StrategyStatus.ACTIVE);
+    assert.equal(funded.fundingPercentage, 100);
+    assert.equal(funded.isFullyFunded, true);
+});
+
+test('is ending soon within 48h of the deadline, funded or not', () => {
+    const derived = deriveStrategyStatus(state({ deadline: BigInt(NOW + ENDING_SOON_SECONDS) }), NOW);
+
+    assert.equal(derived.status, StrategyStatus.ENDING_SOON);
+    assert.equal(derived.timeRemaining, ENDING_SOON_SECONDS);
+});
+
+test('stays funding past the deadline until initiateUnwind is called', () => {
+    const derived = deriveStrategyStatus(state({ deadline: BigInt(NOW - DAY) }), NOW);
+
+    assert.equal(derived.status, StrategyStatus.FUNDING);
+    assert.equal(derived.timeRemaining, 0);
+    assert.equal(derived.isEndingSoon, false);
+});
+
+test('a rejected creator cancels the strategy whatever the contract status', () => {
+    const derived = deriveStrategyStatus(state({
+        status: ContractStatus.COMPLETED_FAILURE,
+        creatorStatus: CreatorStatus.REJECTED
+    }), NOW);
+
+    assert.equal(derived.status, StrategyStatus.CANCELLED);
+});
+
+test('a creator who never opted in is cancelled once the deadline passes', () => {
+    const pending = state({ status: ContractStatus.PENDING_CREATOR, creatorStatus: CreatorStatus.PENDING });
+
+    assert.equal(deriveStrategyStatus(pending, NOW).status, StrategyStatus.PENDING_CREATOR);
+    assert.equal(deriveStrategyStatus({ ...pending, deadline: BigInt(NOW - 1) }, NOW).status, StrategyStatus.CANCELLED);
+});
+
+test('maps terminal contract statuses and accepts raw uint8 values', () => {
+    assert.equal(deriveStrategyStatus(state({ status: 2 }), NOW).status, StrategyStatus.COMPLETED_SUCCESS);
+    assert.equal(deriveStrategyStatus(state({ status: ContractStatus.UNWINDING }), NOW).status, StrategyStatus.UNWINDING);
+});
+
+test('counts milestones when known', () => {
+    const derived = deriveStrategyStatus(state({
+        milestones: [{ completed: true }, { completed: false }, { completed: true }]
+    }), NOW);
+
+    assert.equal(derived.milestonesCompleted, 2);
+    assert.equal(derived.milestonesTotal, 3);
+    assert.equal(deriveStrategyStatus(state({}), NOW).milestonesTotal, 0);
+});